@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LabelingQueue } from "@/services/sentiment/labeling-queue"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const queue = new LabelingQueue()
+
+// The labeled dataset as JSON Lines, one example per line
+export async function GET(request: Request) {
+  if (!authenticateBearer(request, config.sentiment.labeling.labelers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const dataset = await queue.getDataset()
+    const body = dataset.map((example) => JSON.stringify(example)).join("\n")
+
+    return new NextResponse(body ? `${body}\n` : "", {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="labels-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+      },
+    })
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
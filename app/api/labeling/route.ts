@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LabelingQueue } from "@/services/sentiment/labeling-queue"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const queue = new LabelingQueue()
+
+const labelSchema = z
+  .object({
+    id: z.string().min(1),
+    label: z.enum(["fomo", "fud", "neutral"]),
+    polarity: z.number().min(-1).max(1),
+  })
+  // The trainers learn from both, so they must point the same way
+  .refine(({ label, polarity }) => (label === "fomo" ? polarity > 0 : label === "fud" ? polarity < 0 : true), {
+    message: "fomo needs a positive polarity and fud a negative one",
+    path: ["polarity"],
+  })
+
+// Oldest tweets waiting for a label, and dataset totals
+export async function GET(request: Request) {
+  if (!authenticateBearer(request, config.sentiment.labeling.labelers)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Number.parseInt(searchParams.get("limit") || "20") || 20, 100)
+    const [items, stats] = await Promise.all([queue.getPending(limit), queue.getStats()])
+
+    return NextResponse.json({ items, stats })
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  const labeler = authenticateBearer(request, config.sentiment.labeling.labelers)
+  if (!labeler) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const body = labelSchema.safeParse(await request.json())
+    if (!body.success) {
+      return NextResponse.json({ error: "Invalid label", issues: body.error.issues }, { status: 400 })
+    }
+
+    const { id, label, polarity } = body.data
+    const example = await queue.label(id, label, polarity, labeler)
+    if (!example) {
+      return NextResponse.json({ error: `Tweet ${id} is not waiting for a label` }, { status: 404 })
+    }
+
+    return NextResponse.json(example)
+  } catch (error: any) {
+    logger.error("Failed to store label", { error: error.message, labeler })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// Skip a tweet that should not be in the dataset
+export async function DELETE(request: Request) {
+  const labeler = authenticateBearer(request, config.sentiment.labeling.labelers)
+  if (!labeler) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get("id")
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 })
+  }
+
+  try {
+    if (!(await queue.skip(id))) {
+      return NextResponse.json({ error: `Tweet ${id} is not waiting for a label` }, { status: 404 })
+    }
+
+    logger.info("Labeling item skipped", { tweetId: id, labeler })
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LexiconEditor } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+export async function GET(request: Request) {
+  if (!authenticateBearer(request, config.sentiment.lexicon.editors)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const requested = Number.parseInt(searchParams.get("limit") || "50") || 50
+    const limit = Math.min(requested, config.sentiment.lexicon.auditLength)
+
+    return NextResponse.json(await editor.getAuditLog(limit))
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { lexiconPatternSchema } from "@/services/sentiment/lexicon-document"
+import { LexiconEditor } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+// Add a pattern to the draft, or replace the pattern with the same source and flags
+export async function PUT(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (body === null) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    const entry = lexiconPatternSchema.safeParse(body)
+    if (!entry.success) {
+      return NextResponse.json({ error: "Invalid pattern", issues: entry.error.issues }, { status: 400 })
+    }
+
+    const draft = await editor.upsertPattern(entry.data, author)
+    return NextResponse.json({ baseVersion: draft.baseVersion, entry: entry.data })
+  } catch (error: any) {
+    logger.error("Failed to save lexicon pattern", { error: error.message, author })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const pattern = searchParams.get("pattern")
+  const flags = searchParams.get("flags") || undefined
+  if (!pattern) {
+    return NextResponse.json({ error: "Missing pattern" }, { status: 400 })
+  }
+
+  try {
+    const draft = await editor.deletePattern(pattern, flags, author)
+    if (!draft) {
+      return NextResponse.json({ error: `Pattern /${pattern}/${flags || ""} not found` }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    logger.error("Failed to delete lexicon pattern", { error: error.message, author, pattern })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
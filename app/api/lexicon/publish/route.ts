@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LexiconEditor } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+// Publish the draft as the next live version
+export async function POST(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const result = await editor.publish(author)
+    if (!result.published) {
+      return NextResponse.json({ error: result.reason }, { status: 409 })
+    }
+
+    return NextResponse.json({ version: result.document.version, changes: result.diff })
+  } catch (error: any) {
+    logger.error("Failed to publish lexicon", { error: error.message, author })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
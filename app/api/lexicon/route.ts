@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LexiconEditor, diffLexicons } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+// Live version, the draft grouped by category, and what publishing would change
+export async function GET(request: Request) {
+  if (!authenticateBearer(request, config.sentiment.lexicon.editors)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const [live, draft] = await Promise.all([editor.getLive(), editor.getDraft()])
+
+    return NextResponse.json({
+      live: { version: live.version, description: live.description },
+      draft: {
+        baseVersion: draft.baseVersion,
+        updatedAt: draft.updatedAt,
+        updatedBy: draft.updatedBy,
+        terms: editor.getTermsByCategory(draft.document),
+        patterns: draft.document.patterns,
+      },
+      changes: diffLexicons(live, draft.document),
+    })
+  } catch (error: any) {
+    logger.error("Failed to load lexicon", { error: error.message })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// Discard the draft
+export async function DELETE(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    await editor.discard(author)
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    logger.error("Failed to discard lexicon draft", { error: error.message, author })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
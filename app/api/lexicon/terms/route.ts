@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { lexiconEntrySchema } from "@/services/sentiment/lexicon-document"
+import { LexiconEditor } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+// Add a term to the draft, or replace the term with the same text
+export async function PUT(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (body === null) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    const entry = lexiconEntrySchema.safeParse(body)
+    if (!entry.success) {
+      return NextResponse.json({ error: "Invalid term", issues: entry.error.issues }, { status: 400 })
+    }
+
+    const draft = await editor.upsertTerm(entry.data, author)
+    return NextResponse.json({ baseVersion: draft.baseVersion, entry: entry.data })
+  } catch (error: any) {
+    logger.error("Failed to save lexicon term", { error: error.message, author })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  const author = authenticateBearer(request, config.sentiment.lexicon.editors)
+  if (!author) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const term = searchParams.get("term")
+  if (!term) {
+    return NextResponse.json({ error: "Missing term" }, { status: 400 })
+  }
+
+  try {
+    const draft = await editor.deleteTerm(term, author)
+    if (!draft) {
+      return NextResponse.json({ error: `Term "${term}" not found` }, { status: 404 })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    logger.error("Failed to delete lexicon term", { error: error.message, author, term })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { authenticateBearer } from "@/lib/utils/auth"
+import { LexiconEditor } from "@/services/sentiment/lexicon-editor"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const editor = new LexiconEditor()
+
+// Score a text with the live and the draft lexicon
+export async function POST(request: Request) {
+  if (!authenticateBearer(request, config.sentiment.lexicon.editors)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 })
+  }
+
+  try {
+    const { text } = body
+    if (typeof text !== "string" || text.trim().length === 0) {
+      return NextResponse.json({ error: "Missing text" }, { status: 400 })
+    }
+
+    return NextResponse.json(await editor.test(text))
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
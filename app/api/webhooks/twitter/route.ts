@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { AccountActivityWebhook } from "@/services/ingestion/account-activity"
+import { AuthorStore } from "@/services/ingestion/author-store"
+import { TweetIntake } from "@/services/ingestion/intake"
+
+// Signatures need the raw body and crypto, so stay on the Node runtime
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+let webhook: AccountActivityWebhook | null = null
+let intake: TweetIntake | null = null
+let authors: AuthorStore | null = null
+
+function getWebhook(): AccountActivityWebhook {
+  if (!webhook) webhook = new AccountActivityWebhook(config.twitter.apiSecret)
+  return webhook
+}
+
+// CRC challenge, sent on registration and roughly hourly afterwards
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const crcToken = searchParams.get("crc_token")
+
+  if (!crcToken) {
+    return NextResponse.json({ error: "Missing crc_token" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ response_token: getWebhook().createCrcResponse(crcToken) })
+  } catch (error: any) {
+    logger.error("Failed to answer CRC challenge", { error: error.message })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const rawBody = await request.text()
+
+    if (!getWebhook().verifySignature(rawBody, request.headers.get("x-twitter-webhooks-signature"))) {
+      logger.warn("Rejected webhook event with invalid signature")
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+    }
+
+    const { tweets, users } = getWebhook().mapTweetCreateEvents(JSON.parse(rawBody))
+
+    if (tweets.length > 0) {
+      if (!intake) intake = new TweetIntake()
+      if (!authors) authors = new AuthorStore()
+
+      await authors.upsertFromApi(users)
+      const counts = await intake.ingest(tweets)
+
+      logger.info("Webhook tweets ingested", { received: tweets.length, enqueued: counts.enqueued })
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    logger.error("Failed to handle webhook event", { error: error.message })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+"use client"
+import { useState } from "react"
+import useSWR from "swr"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { LabelingCard } from "@/components/labeling-card"
+import { TokenSignIn } from "@/components/token-sign-in"
+import { useBearerToken } from "@/hooks/use-bearer-token"
+import { branding } from "@/lib/config"
+import type { LabelingItem, SentimentLabel } from "@/lib/types"
+
+export default function LabelingPage() {
+  const { token, signIn, request } = useBearerToken("labeling-token")
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, mutate } = useSWR(token ? "/api/labeling" : null, (url: string) => request(url), {
+    refreshInterval: 30000,
+  })
+  const item: LabelingItem | undefined = data?.items[0]
+
+  // Submit, then move on to the next tweet; failures are shown and rethrown
+  const submit = async (url: string, init: RequestInit) => {
+    setError(null)
+    try {
+      await request(url, init)
+    } catch (error: any) {
+      setError(error.message)
+      throw error
+    } finally {
+      await mutate()
+    }
+  }
+
+  const label = (id: string, label: SentimentLabel, polarity: number) =>
+    submit("/api/labeling", { method: "POST", body: JSON.stringify({ id, label, polarity }) })
+
+  // The dataset is JSON Lines, so it is fetched as a file rather than through request()
+  const download = async () => {
+    const response = await fetch("/api/labeling/dataset", { headers: { Authorization: `Bearer ${token}` } })
+    if (!response.ok) {
+      setError(`Download failed with ${response.status}`)
+      return
+    }
+
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(await response.blob())
+    link.download = `labels-${new Date().toISOString().slice(0, 10)}.jsonl`
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold">Labeling</h1>
+              <p className="text-sm text-muted-foreground">
+                Tweets {branding.name} was unsure about, for evaluation and retraining
+              </p>
+            </div>
+            <a href="/" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+              Dashboard
+            </a>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {!token ? (
+          <TokenSignIn description="Enter your labeler token" onSignIn={signIn} />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-4">
+              {item ? (
+                // Keyed by tweet so the polarity slider resets for every tweet
+                <LabelingCard
+                  key={item.id}
+                  item={item}
+                  onLabel={(labelValue, polarity) => label(item.id, labelValue, polarity)}
+                  onSkip={() => submit(`/api/labeling?id=${encodeURIComponent(item.id)}`, { method: "DELETE" })}
+                />
+              ) : (
+                data && (
+                  <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                      Nothing to label right now
+                    </CardContent>
+                  </Card>
+                )
+              )}
+              {error && <div className="text-sm text-red-500">{error}</div>}
+            </div>
+
+            {/* Dataset */}
+            {data && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Dataset</CardTitle>
+                  <CardDescription>{data.stats.pending} tweets waiting for a label</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Labeled</span>
+                      <span className="font-bold">{data.stats.labeled}</span>
+                    </div>
+                    {(["fomo", "neutral", "fud"] as SentimentLabel[]).map((name) => (
+                      <div key={name} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{name}</span>
+                        <span className="font-bold">{data.stats.labels[name]}</span>
+                      </div>
+                    ))}
+                    <Button variant="outline" className="w-full" onClick={download}>
+                      Download JSONL
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+import { useState } from "react"
+import useSWR from "swr"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { LexiconPatterns, LexiconTerms } from "@/components/lexicon-entries"
+import { LexiconTester } from "@/components/lexicon-tester"
+import { LexiconAuditLog, LexiconDiffList } from "@/components/lexicon-audit-log"
+import { TokenSignIn } from "@/components/token-sign-in"
+import { useBearerToken } from "@/hooks/use-bearer-token"
+import { branding } from "@/lib/config"
+
+export default function LexiconEditorPage() {
+  const { token, signIn, request } = useBearerToken("lexicon-editor-token")
+  const [error, setError] = useState<string | null>(null)
+
+  const fetcher = (url: string) => request(url)
+  const { data: lexicon, mutate: refreshLexicon } = useSWR(token ? "/api/lexicon" : null, fetcher)
+  const { data: audit, mutate: refreshAudit } = useSWR(token ? "/api/lexicon/audit" : null, fetcher)
+
+  // Run an edit, then reload the draft and the audit log; failures are shown and rethrown
+  const change = async (url: string, init: RequestInit) => {
+    setError(null)
+    try {
+      await request(url, init)
+    } catch (error: any) {
+      setError(error.message)
+      throw error
+    } finally {
+      await Promise.all([refreshLexicon(), refreshAudit()])
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold">Lexicon</h1>
+              <p className="text-sm text-muted-foreground">{branding.name} sentiment terms and patterns</p>
+            </div>
+            <a href="/" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+              Dashboard
+            </a>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {!token ? (
+          <TokenSignIn description="Enter your lexicon editor token" onSignIn={signIn} />
+        ) : (
+          <div className="space-y-6">
+            {/* Draft status */}
+            {lexicon && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    Draft
+                    <Badge variant="secondary">based on v{lexicon.draft.baseVersion}</Badge>
+                    <Badge>live v{lexicon.live.version}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {lexicon.draft.updatedBy
+                      ? `Last edited by ${lexicon.draft.updatedBy}`
+                      : "No unpublished edits; changes below start a draft"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <LexiconDiffList diff={lexicon.changes} />
+                    <div className="flex gap-2">
+                      <Button onClick={() => change("/api/lexicon/publish", { method: "POST" }).catch(() => {})}>
+                        Publish
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => change("/api/lexicon", { method: "DELETE" }).catch(() => {})}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                    {error && <div className="text-sm text-red-500">{error}</div>}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {lexicon && (
+                <LexiconTerms
+                  terms={lexicon.draft.terms}
+                  onSave={(entry) => change("/api/lexicon/terms", { method: "PUT", body: JSON.stringify(entry) })}
+                  onDelete={(term) =>
+                    change(`/api/lexicon/terms?term=${encodeURIComponent(term)}`, { method: "DELETE" })
+                  }
+                />
+              )}
+
+              <LexiconTester
+                onTest={(text) => request("/api/lexicon/test", { method: "POST", body: JSON.stringify({ text }) })}
+              />
+
+              {lexicon && (
+                <div className="lg:col-span-2">
+                  <LexiconPatterns
+                    patterns={lexicon.draft.patterns}
+                    onSave={(pattern) =>
+                      change("/api/lexicon/patterns", { method: "PUT", body: JSON.stringify(pattern) })
+                    }
+                    onDelete={(pattern) =>
+                      change(
+                        `/api/lexicon/patterns?pattern=${encodeURIComponent(pattern.pattern)}` +
+                          `&flags=${encodeURIComponent(pattern.flags || "")}`,
+                        { method: "DELETE" },
+                      )
+                    }
+                  />
+                </div>
+              )}
+
+              {audit && (
+                <div className="lg:col-span-2">
+                  <LexiconAuditLog entries={audit} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { MoodGauge } from "@/components/mood-gauge"
 import { MarketSignals } from "@/components/market-signals"
 import { DecisionPanel } from "@/components/decision-panel"
 import { RiskMetrics } from "@/components/risk-metrics"
+import { CampaignActivity } from "@/components/campaign-activity"
 import { branding } from "@/lib/config"
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json())
@@ -87,6 +88,15 @@ export default function Dashboard() {
               killSwitchActive={risk.killSwitchActive}
             />
           )}
+
+          {/* Campaign Activity */}
+          {mood?.campaigns && (
+            <CampaignActivity
+              duplicateShare={mood.campaigns.duplicateShare}
+              activeClusters={mood.campaigns.activeClusters}
+              largestClusterSize={mood.campaigns.largestClusterSize}
+            />
+          )}
         </div>
 
         {/* Disclaimer */}
@@ -0,0 +1,52 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { Copy } from "lucide-react"
+
+interface CampaignActivityProps {
+  duplicateShare: number
+  activeClusters: number
+  largestClusterSize: number
+}
+
+export function CampaignActivity({ duplicateShare, activeClusters, largestClusterSize }: CampaignActivityProps) {
+  const sharePercentage = duplicateShare * 100
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Campaign Activity
+        </CardTitle>
+        <CardDescription>Near-duplicate posts collapsed from the mood score</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {/* Duplicate Share */}
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-muted-foreground">Duplicate Share</span>
+              <span className="font-bold">{sharePercentage.toFixed(1)}%</span>
+            </div>
+            <Progress value={sharePercentage} className="h-2" />
+          </div>
+
+          {/* Active Clusters */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Active Clusters</span>
+            <Badge variant={activeClusters > 0 ? "destructive" : "secondary"}>{activeClusters}</Badge>
+          </div>
+
+          {/* Largest Cluster */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Largest Cluster</span>
+            <span className="font-bold">{largestClusterSize} posts</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tag } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { LabelingItem, SentimentLabel } from "@/lib/types"
+
+interface LabelingCardProps {
+  item: LabelingItem
+  onLabel: (label: SentimentLabel, polarity: number) => Promise<void>
+  onSkip: () => Promise<void>
+}
+
+const LABELS: { label: SentimentLabel; title: string; className: string }[] = [
+  { label: "fomo", title: "FOMO", className: "bg-green-500 hover:bg-green-600 text-white" },
+  { label: "neutral", title: "Neutral", className: "" },
+  { label: "fud", title: "FUD", className: "bg-red-500 hover:bg-red-600 text-white" },
+]
+
+export function LabelingCard({ item, onLabel, onSkip }: LabelingCardProps) {
+  const [polarity, setPolarity] = useState(0)
+  const [busy, setBusy] = useState(false)
+
+  const submit = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } catch {
+      // The page shows the error; the item stays on screen
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Label Tweet
+        </CardTitle>
+        <CardDescription className="flex items-center gap-2">
+          <Badge variant={item.reason === "disagreement" ? "destructive" : "secondary"}>
+            {item.reason.replace("_", " ")}
+          </Badge>
+          <span>posted {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {/* Tweet */}
+          <div className="space-y-2">
+            {(item.referencedTweets || []).map((reference) => (
+              <div key={reference.id} className="p-3 border rounded-lg text-sm text-muted-foreground">
+                <div className="text-xs mb-1">{reference.type === "quoted" ? "Quoting" : "Replying to"}</div>
+                {reference.text}
+              </div>
+            ))}
+            <div className="p-4 bg-muted rounded-lg text-lg">{item.text}</div>
+          </div>
+
+          {/* Scores */}
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Lexicon v{item.lexicon.version}</span>
+              <span className="font-bold">
+                {item.lexicon.sentiment.toFixed(2)} ({(item.lexicon.confidence * 100).toFixed(0)}%)
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Model</span>
+              <span className="font-bold">
+                {item.model.value.toFixed(2)} ({(item.model.confidence * 100).toFixed(0)}%)
+              </span>
+            </div>
+          </div>
+
+          {/* Polarity */}
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-muted-foreground">Polarity</span>
+              <span className="font-bold">
+                {polarity > 0 ? "+" : ""}
+                {polarity.toFixed(2)}
+              </span>
+            </div>
+            <Slider min={-1} max={1} step={0.05} value={[polarity]} onValueChange={([value]) => setPolarity(value)} />
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>Bearish</span>
+              <span>Bullish</span>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-2">
+            {LABELS.map(({ label, title, className }) => (
+              <Button
+                key={label}
+                variant={label === "neutral" ? "outline" : "default"}
+                className={`flex-1 ${className}`}
+                disabled={busy}
+                onClick={() => submit(() => onLabel(label, polarity))}
+              >
+                {title}
+              </Button>
+            ))}
+            <Button variant="ghost" disabled={busy} onClick={() => submit(onSkip)}>
+              Skip
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
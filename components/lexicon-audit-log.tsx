@@ -0,0 +1,90 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { History } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { LexiconAuditEntry, LexiconDiff } from "@/services/sentiment/lexicon-editor"
+
+interface LexiconAuditLogProps {
+  entries: LexiconAuditEntry[]
+}
+
+export function LexiconAuditLog({ entries }: LexiconAuditLogProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Every draft edit, discard and publish</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No changes yet</div>
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => (
+              <div key={entry.id} className="border-b pb-3 last:border-0">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === "publish" ? "default" : "secondary"}>
+                      {entry.action.replace("_", " ")}
+                    </Badge>
+                    <span className="text-sm font-medium">{entry.author}</span>
+                    <span className="text-xs text-muted-foreground">v{entry.version}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                  </span>
+                </div>
+                <LexiconDiffList diff={entry.diff} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * One line per added (+), changed (~) or removed (-) term and pattern
+ */
+export function LexiconDiffList({ diff }: { diff: LexiconDiff }) {
+  const lines: { sign: "+" | "~" | "-"; text: string }[] = []
+  const describe = (entry: { sentiment: number; weight: number; category: string }) =>
+    `${entry.sentiment} × ${entry.weight}, ${entry.category}`
+
+  for (const entry of diff.terms.added) lines.push({ sign: "+", text: `${entry.term} (${describe(entry)})` })
+  for (const { before, after } of diff.terms.changed) {
+    lines.push({ sign: "~", text: `${after.term} (${describe(before)} → ${describe(after)})` })
+  }
+  for (const entry of diff.terms.removed) lines.push({ sign: "-", text: entry.term })
+
+  for (const entry of diff.patterns.added) {
+    lines.push({ sign: "+", text: `/${entry.pattern}/${entry.flags || ""} (${describe(entry)})` })
+  }
+  for (const { before, after } of diff.patterns.changed) {
+    const source = `/${after.pattern}/${after.flags || ""}`
+    lines.push({ sign: "~", text: `${source} (${describe(before)} → ${describe(after)})` })
+  }
+  for (const entry of diff.patterns.removed) lines.push({ sign: "-", text: `/${entry.pattern}/${entry.flags || ""}` })
+
+  if (lines.length === 0) {
+    return <div className="text-xs text-muted-foreground">No term or pattern changes</div>
+  }
+
+  const colors = { "+": "text-green-500", "~": "text-orange-500", "-": "text-red-500" }
+
+  return (
+    <div className="space-y-0.5 font-mono text-xs">
+      {lines.map((line, index) => (
+        <div key={index} className={colors[line.sign]}>
+          {line.sign} {line.text}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { BookOpen, Regex, Save, Trash2 } from "lucide-react"
+import type { LexiconEntry, LexiconPattern } from "@/services/sentiment/lexicon"
+
+type Category = LexiconEntry["category"]
+
+const CATEGORIES: Category[] = ["fomo", "bullish", "neutral", "bearish", "fud"]
+
+interface LexiconTermsProps {
+  terms: { [category in Category]: LexiconEntry[] }
+  onSave: (entry: LexiconEntry) => Promise<void>
+  onDelete: (term: string) => Promise<void>
+}
+
+interface LexiconPatternsProps {
+  patterns: LexiconPattern[]
+  onSave: (pattern: LexiconPattern) => Promise<void>
+  onDelete: (pattern: LexiconPattern) => Promise<void>
+}
+
+export function LexiconTerms({ terms, onSave, onDelete }: LexiconTermsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Terms
+        </CardTitle>
+        <CardDescription>Draft terms by category, matched as whole tokens</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue={CATEGORIES[0]}>
+          <TabsList>
+            {CATEGORIES.map((category) => (
+              <TabsTrigger key={category} value={category} className="gap-2">
+                {category}
+                <Badge variant="secondary">{terms[category]?.length ?? 0}</Badge>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {CATEGORIES.map((category) => (
+            <TabsContent key={category} value={category}>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Term</TableHead>
+                    <TableHead className="w-28">Sentiment</TableHead>
+                    <TableHead className="w-28">Weight</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(terms[category] ?? []).map((entry) => (
+                    <EntryRow
+                      key={entry.term}
+                      entry={entry}
+                      onSave={onSave}
+                      onDelete={() => onDelete(entry.term)}
+                    />
+                  ))}
+                  {/* Keyed by category so switching tabs starts a fresh row */}
+                  <EntryRow
+                    key={`new-${category}`}
+                    entry={{ term: "", sentiment: 0, weight: 1, category }}
+                    onSave={onSave}
+                  />
+                </TableBody>
+              </Table>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function LexiconPatterns({ patterns, onSave, onDelete }: LexiconPatternsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Regex className="h-5 w-5" />
+          Patterns
+        </CardTitle>
+        <CardDescription>Regular expressions matched against the whole text, without negation</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pattern</TableHead>
+              <TableHead className="w-20">Flags</TableHead>
+              <TableHead>Label</TableHead>
+              <TableHead className="w-32">Category</TableHead>
+              <TableHead className="w-28">Sentiment</TableHead>
+              <TableHead className="w-28">Weight</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {patterns.map((pattern) => (
+              <PatternRow
+                key={`/${pattern.pattern}/${pattern.flags || ""}`}
+                pattern={pattern}
+                onSave={onSave}
+                onDelete={() => onDelete(pattern)}
+              />
+            ))}
+            <PatternRow
+              key={`new-${patterns.length}`}
+              pattern={{ pattern: "", flags: "", term: "", sentiment: 0, weight: 1, category: "neutral" }}
+              onSave={onSave}
+            />
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface EntryRowProps {
+  entry: LexiconEntry
+  onSave: (entry: LexiconEntry) => Promise<void>
+  onDelete?: () => Promise<void> // absent on the row for a new term
+}
+
+function EntryRow({ entry, onSave, onDelete }: EntryRowProps) {
+  const [term, setTerm] = useState(entry.term)
+  const [sentiment, setSentiment] = useState(String(entry.sentiment))
+  const [weight, setWeight] = useState(String(entry.weight))
+  const [busy, setBusy] = useState(false)
+
+  const edited = { ...entry, term: term.trim(), sentiment: Number(sentiment), weight: Number(weight) }
+  const valid = isValidEntry(edited)
+  const dirty = edited.term !== entry.term || edited.sentiment !== entry.sentiment || edited.weight !== entry.weight
+
+  const save = async () => {
+    setBusy(true)
+    try {
+      await onSave(edited)
+      if (!onDelete) {
+        setTerm("")
+        setSentiment("0")
+        setWeight("1")
+      }
+    } catch {
+      // The page shows the error; the row keeps its input
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <TableRow>
+      <TableCell>
+        {onDelete ? (
+          <span className="font-medium">{entry.term}</span>
+        ) : (
+          <Input value={term} placeholder="New term" onChange={(event) => setTerm(event.target.value)} />
+        )}
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          step="0.05"
+          min={-1}
+          max={1}
+          value={sentiment}
+          onChange={(event) => setSentiment(event.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <Input type="number" step="0.1" min={0} value={weight} onChange={(event) => setWeight(event.target.value)} />
+      </TableCell>
+      <TableCell className="flex gap-1 justify-end">
+        <Button size="icon" variant="outline" disabled={!dirty || !valid || busy} onClick={save} title="Save">
+          <Save className="h-4 w-4" />
+        </Button>
+        {onDelete && (
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={busy}
+            onClick={() => onDelete().catch(() => {})}
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+interface PatternRowProps {
+  pattern: LexiconPattern
+  onSave: (pattern: LexiconPattern) => Promise<void>
+  onDelete?: () => Promise<void> // absent on the row for a new pattern
+}
+
+function PatternRow({ pattern, onSave, onDelete }: PatternRowProps) {
+  const [source, setSource] = useState(pattern.pattern)
+  const [flags, setFlags] = useState(pattern.flags || "")
+  const [term, setTerm] = useState(pattern.term)
+  const [category, setCategory] = useState<Category>(pattern.category)
+  const [sentiment, setSentiment] = useState(String(pattern.sentiment))
+  const [weight, setWeight] = useState(String(pattern.weight))
+  const [busy, setBusy] = useState(false)
+
+  const edited: LexiconPattern = {
+    pattern: source,
+    flags: flags || undefined,
+    term: term.trim(),
+    category,
+    sentiment: Number(sentiment),
+    weight: Number(weight),
+  }
+  const valid = isValidEntry(edited) && source.length > 0 && compiles(source, flags)
+  const dirty = JSON.stringify(edited) !== JSON.stringify({ ...pattern, flags: pattern.flags || undefined })
+
+  const save = async () => {
+    setBusy(true)
+    try {
+      await onSave(edited)
+    } catch {
+      // The page shows the error; the row keeps its input
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <TableRow>
+      <TableCell>
+        {onDelete ? (
+          <code className="text-sm">{pattern.pattern}</code>
+        ) : (
+          <Input value={source} placeholder="New pattern" onChange={(event) => setSource(event.target.value)} />
+        )}
+      </TableCell>
+      <TableCell>
+        {onDelete ? (
+          <code className="text-sm">{pattern.flags}</code>
+        ) : (
+          <Input value={flags} placeholder="i" onChange={(event) => setFlags(event.target.value)} />
+        )}
+      </TableCell>
+      <TableCell>
+        <Input value={term} onChange={(event) => setTerm(event.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Select value={category} onValueChange={(value) => setCategory(value as Category)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORIES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          step="0.05"
+          min={-1}
+          max={1}
+          value={sentiment}
+          onChange={(event) => setSentiment(event.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <Input type="number" step="0.1" min={0} value={weight} onChange={(event) => setWeight(event.target.value)} />
+      </TableCell>
+      <TableCell className="flex gap-1 justify-end">
+        <Button size="icon" variant="outline" disabled={!dirty || !valid || busy} onClick={save} title="Save">
+          <Save className="h-4 w-4" />
+        </Button>
+        {onDelete && (
+          <Button
+            size="icon"
+            variant="ghost"
+            disabled={busy}
+            onClick={() => onDelete().catch(() => {})}
+            title="Delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+// Mirrors the server-side schema so obviously bad rows cannot be submitted
+function isValidEntry(entry: LexiconEntry): boolean {
+  return entry.term.length > 0 && Math.abs(entry.sentiment) <= 1 && entry.weight > 0
+}
+
+function compiles(pattern: string, flags: string): boolean {
+  try {
+    new RegExp(pattern, flags)
+    return /^[imsu]*$/.test(flags)
+  } catch {
+    return false
+  }
+}
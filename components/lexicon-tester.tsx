@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { FlaskConical } from "lucide-react"
+import type { LexiconAnalysis } from "@/services/sentiment/lexicon"
+import type { LexiconTestResult } from "@/services/sentiment/lexicon-editor"
+
+interface LexiconTesterProps {
+  onTest: (text: string) => Promise<LexiconTestResult>
+}
+
+export function LexiconTester({ onTest }: LexiconTesterProps) {
+  const [text, setText] = useState("")
+  const [result, setResult] = useState<LexiconTestResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const test = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      setResult(await onTest(text))
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Test
+        </CardTitle>
+        <CardDescription>Score a text with the live and the draft lexicon</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <Textarea
+            value={text}
+            placeholder="not very bullish on this one 📉"
+            onChange={(event) => setText(event.target.value)}
+          />
+          <Button disabled={busy || text.trim().length === 0} onClick={test}>
+            Score
+          </Button>
+
+          {error && <div className="text-sm text-red-500">{error}</div>}
+
+          {result && (
+            <>
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="text-xs text-muted-foreground mb-1">Cleaned text</div>
+                <div className="text-sm font-mono">{result.text}</div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <AnalysisColumn title="Live" analysis={result.live} />
+                <AnalysisColumn title="Draft" analysis={result.draft} compareTo={result.live} />
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function AnalysisColumn({
+  title,
+  analysis,
+  compareTo,
+}: {
+  title: string
+  analysis: LexiconAnalysis
+  compareTo?: LexiconAnalysis
+}) {
+  const rows: [string, keyof LexiconAnalysis][] = [
+    ["Sentiment", "sentiment"],
+    ["Confidence", "confidence"],
+    ["FOMO", "fomo"],
+    ["FUD", "fud"],
+    ["Neutral", "neutral"],
+  ]
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{title}</span>
+        <Badge variant="secondary">v{analysis.version}</Badge>
+      </div>
+      {rows.map(([label, key]) => {
+        const value = analysis[key] as number
+        const changed = compareTo !== undefined && Math.abs((compareTo[key] as number) - value) > 0.0005
+
+        return (
+          <div key={key} className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <span className={changed ? "font-bold text-orange-500" : "font-bold"}>{value.toFixed(3)}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+
+interface TokenSignInProps {
+  description: string
+  onSignIn: (token: string) => void
+}
+
+export function TokenSignIn({ description, onSignIn }: TokenSignInProps) {
+  const [value, setValue] = useState("")
+
+  const submit = () => {
+    if (value) onSignIn(value)
+  }
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Sign in</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && submit()}
+          />
+          <Button disabled={!value} onClick={submit}>
+            Sign in
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
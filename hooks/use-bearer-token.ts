@@ -0,0 +1,50 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+/**
+ * Bearer token for the internal API routes, kept for the browser session.
+ * `request` sends it with every call and forgets it when the server rejects it.
+ */
+export function useBearerToken(storageKey: string) {
+  const [token, setToken] = useState("")
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(storageKey) || "")
+  }, [storageKey])
+
+  const signIn = useCallback(
+    (value: string) => {
+      sessionStorage.setItem(storageKey, value)
+      setToken(value)
+    },
+    [storageKey],
+  )
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(storageKey)
+    setToken("")
+  }, [storageKey])
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+      })
+      const body = await response.json()
+
+      if (response.status === 401) {
+        signOut()
+      }
+      if (!response.ok) {
+        throw new Error(body.error || `Request failed with ${response.status}`)
+      }
+
+      return body
+    },
+    [token, signOut],
+  )
+
+  return { token, signIn, signOut, request }
+}
@@ -11,6 +11,19 @@ export const branding = {
   description: "Autonomous Crypto Sentiment Trading System",
 } as const
 
+function listFromEnv(value: string | undefined, fallback: string[]): string[] {
+  if (!value) return fallback
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? "")
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
 export const config = {
   // Twitter/X API Configuration
   twitter: {
@@ -21,13 +34,175 @@ export const config = {
     // Rate limiting
     maxRequestsPerMinute: 450,
     maxRequestsPerDay: 500000,
+    // Recent search pagination and query limits
+    search: {
+      maxPagesPerPoll: 5,
+      maxQueryLength: 512, // 1024 on Pro/Enterprise access
+      maxOperatorsPerQuery: 30,
+      // Recent search only reaches back 7 days, so older cursors are useless
+      cursorTtlSeconds: 7 * 24 * 60 * 60,
+    },
+    // Per-endpoint request budgets for app-only auth; resynchronised from
+    // x-rate-limit-* response headers
+    rateLimits: {
+      search: { limit: 450, windowMs: 15 * 60 * 1000 },
+      users: { limit: 300, windowMs: 15 * 60 * 1000 },
+      streamRules: { limit: 450, windowMs: 15 * 60 * 1000 },
+      stream: { limit: 50, windowMs: 15 * 60 * 1000 },
+    },
+  },
+
+  // Tracked token profile, drives search queries
+  token: {
+    symbol: process.env.TOKEN_SYMBOL || "MOOD",
+    aliases: listFromEnv(process.env.TOKEN_ALIASES, ["MoodAgent", "Mood Agent"]),
+    mintAddress: process.env.TOKEN_MINT || "",
+    handles: listFromEnv(process.env.TOKEN_HANDLES, ["MoonAgentAI"]),
+    exclusions: listFromEnv(process.env.TOKEN_EXCLUSIONS, ["giveaway", "airdrop", "mood ring"]),
+  },
+
+  // Ingestion Configuration
+  ingestion: {
+    source: (process.env.INGESTION_SOURCE || "twitter") as "twitter" | "file",
+    mode: (process.env.INGESTION_MODE || "poll") as "poll" | "stream",
+    pollIntervalMs: 60000, // 1 minute
+    // Replies are scored in the context of the tweet they answer
+    includeReplies: process.env.INCLUDE_REPLIES === "true",
+    // Languages admitted to the pipeline (ISO 639-1, "und" for undetermined). Short slang
+    // ("gm", "lfg 🚀") and media-only tweets are undetermined, so "und" is admitted too
+    allowedLanguages: listFromEnv(process.env.ALLOWED_LANGUAGES, ["en", "tr", "und"]),
+    // Offline replay of recorded tweets (JSONL or CSV)
+    replay: {
+      path: process.env.REPLAY_FILE || "",
+      // 1 = real time, 60 = one recorded hour per minute, 0 = as fast as possible
+      speed: numberFromEnv(process.env.REPLAY_SPEED, 1),
+      batchSize: 100,
+    },
+    // Delivery guarantees for tweets:pending
+    queue: {
+      // Unacknowledged tweets are requeued after this long; must cover a full aggregation batch
+      visibilityTimeoutMs: 120000,
+      maxAttempts: 5,
+      processedTtlSeconds: 7 * 24 * 60 * 60,
+    },
+    // Author profile cache
+    authors: {
+      profileTtlSeconds: 24 * 60 * 60,
+      missTtlSeconds: 10 * 60, // failed lookups are not retried for this long
+      seenCountTtlSeconds: 30 * 24 * 60 * 60,
+      cadenceWindowSeconds: 24 * 60 * 60,
+    },
+    // Bot scoring
+    bots: {
+      threshold: 0.5, // marks ProcessedTweet.isBot
+      dropThreshold: 0.95, // near-certain bots are not even enqueued
+    },
+    // Queue-depth throttling: above highWatermark ingestion pauses or samples,
+    // and it resumes at full rate once the queue drains below lowWatermark
+    backpressure: {
+      mode: (process.env.BACKPRESSURE_MODE || "sample") as "pause" | "sample",
+      highWatermark: numberFromEnv(process.env.QUEUE_HIGH_WATERMARK, 5000),
+      lowWatermark: numberFromEnv(process.env.QUEUE_LOW_WATERMARK, 1000),
+      throttledSampleRate: 0.5, // keep rate from the first throttled check, shrinking past the high watermark
+      minSampleRate: 0.05,
+      checkIntervalMs: 5000,
+    },
+    stream: {
+      // X sends a keep-alive newline every 20 seconds
+      heartbeatTimeoutMs: 30000,
+      reconnectBaseDelayMs: 1000,
+      reconnectMaxDelayMs: 320000,
+    },
   },
 
   // Sentiment Analysis Configuration
   sentiment: {
     modelEndpoint: process.env.SENTIMENT_MODEL_ENDPOINT || "",
+    // Model backend. remote: the endpoint above, where the deadline covers every retry of
+    // a request and the circuit breaker sends tweets straight to the fallback while it
+    // fails. local: an exported classifier run in-process on CPU
+    model: {
+      backend: (process.env.SENTIMENT_MODEL_BACKEND || "remote") as "remote" | "local",
+      localPath: process.env.SENTIMENT_MODEL_PATH || "models/sentiment", // tokenizer.json and classifier.json
+      deadlineMs: numberFromEnv(process.env.SENTIMENT_MODEL_DEADLINE_MS, 2000),
+      batchDeadlineMs: 10000,
+      maxRetries: 2,
+      retryBaseDelayMs: 100, // full jitter up to base * 2^attempt
+      retryMaxDelayMs: 1000,
+      healthCheckIntervalMs: 15000,
+      breaker: {
+        windowSize: 20,
+        minRequests: 5,
+        errorRateThreshold: 0.5,
+        openMs: 30000,
+        halfOpenProbes: 1,
+        healthFailures: 3, // consecutive failed health checks
+      },
+    },
     batchSize: 32,
+    // Worker micro-batches: dequeued tweets are scored together, up to batchSize
+    // tweets or maxWaitMs after the first one, with this many batches in flight
+    microBatch: {
+      maxWaitMs: 250,
+      concurrency: numberFromEnv(process.env.SENTIMENT_CONCURRENCY, 2),
+    },
     confidenceThreshold: 0.7,
+    // Lexicon and model ensemble. fixed: constant weights; confidence: the weights
+    // scaled by each side's confidence; stacking: weights fitted on labeled tweets
+    combiner: {
+      type: (process.env.SENTIMENT_COMBINER || "fixed") as "fixed" | "confidence" | "stacking",
+      lexiconWeight: 0.3, // the model gets the rest
+      stackingPath: process.env.SENTIMENT_STACKING_PATH || "models/stacking.json",
+      // Tweets whose disagreement (half the lexicon-model gap) reaches this are marked disputed
+      disagreementThreshold: 0.4,
+      excludeDisputed: process.env.EXCLUDE_DISPUTED === "true", // leave them out of the mood score
+    },
+    // Near-duplicate (copypasta campaign) detection
+    duplicates: {
+      // collapse: each cluster counts once per window; downweight: weight / sqrt(cluster size)
+      mode: "collapse" as "collapse" | "downweight",
+      hammingThreshold: 3, // max differing SimHash bits for a near-duplicate
+      minTokens: 4, // shorter texts ("gm") are too generic to fingerprint
+      windowSeconds: 6 * 60 * 60, // clusters expire after this much inactivity
+    },
+    // Quote and reply context: how much of a referenced tweet's sentiment a
+    // tweet with little sentiment of its own ("lol this") takes over
+    context: {
+      quotedWeight: 0.6,
+      repliedToWeight: 0.35,
+    },
+    // Per-topic and per-token mood series, keyed by mentioned token symbol;
+    // tweets about our token always form the "ours" topic
+    topics: {
+      buckets: {
+        solana: listFromEnv(process.env.TOPIC_SOLANA, ["SOL", "JUP"]),
+        macro: listFromEnv(process.env.TOPIC_MACRO, ["BTC", "ETH"]),
+        competitors: listFromEnv(process.env.TOPIC_COMPETITORS, ["BONK", "WIF"]),
+      },
+      trackedTokens: listFromEnv(process.env.TRACKED_TOKENS, ["SOL", "BTC", "ETH", "BONK", "WIF"]),
+      minTweets: 3, // a smaller scored volume (estimated tweets) in a batch carries the previous scores over
+    },
+    // Versioned lexicon document (JSON or YAML), relative to the working directory;
+    // edits published to Redis replace it when their version is higher
+    lexicon: {
+      path: process.env.LEXICON_PATH || "services/sentiment/lexicons/default.json",
+      redisKey: "lexicon:current",
+      reloadIntervalMs: 30000, // how often workers check Redis for a newer version
+      // Editor API: drafts are edited in Redis and published as the next version
+      draftKey: "lexicon:draft",
+      auditKey: "lexicon:audit",
+      auditLength: 1000,
+      editors: listFromEnv(process.env.LEXICON_EDITORS, []), // "name:token" pairs
+    },
+    // Active learning: tweets the scorers are unsure or disagree about are
+    // sampled into a queue for manual labels
+    labeling: {
+      lowConfidenceThreshold: 0.2, // combined confidence below this
+      disagreementThreshold: 0.8, // |lexicon - model| at or above this, with lexicon hits
+      sampleRate: numberFromEnv(process.env.LABELING_SAMPLE_RATE, 0.1),
+      maxPending: 2000, // sampling stops while this many tweets wait for a label
+      labelers: listFromEnv(process.env.LABELERS, []), // "name:token" pairs
+    },
     // Crypto-specific keywords
     cryptoLexicon: [
       "pump",
@@ -77,6 +252,8 @@ export const config = {
     maxSlippagePercent: 2,
     minTreasuryThreshold: 0.1, // 10% minimum reserve
     maxConsecutiveLosses: 3,
+    // Only buy back on FUD that is about our token, not market-wide FUD
+    ignoreMarketWideFud: process.env.IGNORE_MARKET_WIDE_FUD === "true",
   },
 
   // Solana Configuration
@@ -6,6 +6,7 @@ export interface Tweet {
   id: string
   text: string
   authorId: string
+  authorUsername?: string // handle without "@", when the source reports it
   createdAt: Date
   metrics: {
     likes: number
@@ -17,7 +18,50 @@ export interface Tweet {
     hashtags?: string[]
     cashtags?: string[]
     mentions?: string[]
+    urls?: string[] // expanded link targets
   }
+  source?: string // origin tag, e.g. "twitter" or "replay:<file>"
+  lang?: string // language code reported by the source, if any
+  sampleWeight?: number // tweets this one stands for after ingestion sampling; 1 when unsampled
+  referencedTweets?: ReferencedTweet[] // quoted or replied-to tweets whose text is known
+  tokens?: TokenMention[] // extracted from the raw text before cleaning
+  rawText?: string // text as posted; queued tweets carry the cleaned text in `text`
+}
+
+export interface ReferencedTweet {
+  type: "quoted" | "replied_to"
+  id: string
+  text: string
+  authorId?: string
+}
+
+export type TokenRole = "ours" | "peer" | "market" | "unknown"
+
+export interface TokenMention {
+  symbol: string | null // null for mint addresses missing from the registry
+  mintAddress: string | null
+  role: TokenRole
+  via: Array<"cashtag" | "mint" | "link" | "handle" | "alias">
+}
+
+export interface AuthorProfile {
+  id: string
+  username?: string
+  followers: number
+  following: number
+  verified: boolean
+  accountCreatedAt: Date | null
+  seenTweets: number // tweets by this author that reached sentiment analysis
+  cadence: {
+    postsLastHour: number
+    intervalCv: number | null // coefficient of variation of posting gaps; low = machine-regular
+  }
+  updatedAt: Date
+}
+
+export interface BotScore {
+  probability: number // 0 to 1
+  reasons: string[]
 }
 
 export interface SentimentScore {
@@ -30,13 +74,46 @@ export interface SentimentScore {
     neutral: number
   }
   timestamp: Date
+  lexiconVersion?: string // lexicon document that scored it; absent for model-only scores
+  disagreement?: number // lexicon vs model, 0 to 1; set on combined scores
 }
 
 export interface ProcessedTweet extends Tweet {
   sentiment: SentimentScore
   language: string
+  languageConfidence: number
   isBot: boolean
+  botScore: number // bot probability, 0 to 1
   authorWeight: number
+  clusterId: string // near-duplicate cluster; the tweet's own id when unique
+  clusterSize: number // tweets seen in the cluster so far
+  contextWeight: number // share of the sentiment taken from referenced tweets, 0 without context
+  tokens: TokenMention[]
+  disputed?: boolean // lexicon and model disagree beyond the configured threshold
+}
+
+export type SentimentLabel = "fomo" | "fud" | "neutral"
+
+// Why a tweet was sampled for labeling
+export type LabelingReason = "low_confidence" | "disagreement"
+
+export interface LabelingItem {
+  id: string // tweet id
+  text: string // cleaned text, as scored
+  referencedTweets?: ReferencedTweet[] // shown to labelers, a reply can be unreadable alone
+  authorId: string
+  createdAt: string
+  reason: LabelingReason
+  lexicon: { sentiment: number; confidence: number; version: string }
+  model: { value: number; confidence: number }
+  enqueuedAt: string
+}
+
+export interface LabeledExample extends LabelingItem {
+  label: SentimentLabel
+  polarity: number // -1 to +1
+  labeler: string
+  labeledAt: string
 }
 
 export interface AggregatedMood {
@@ -46,11 +123,33 @@ export interface AggregatedMood {
   ema5: number
   ema15: number
   ema60: number
-  volume: number
+  volume: number // estimated tweet count, corrected for ingestion sampling
+  analyzedVolume: number // tweets actually scored
+  lexiconVersions: string[] // lexicon versions that scored the batch, to trace shifts back to lexicon edits
+  disputedShare: number // share of tweets the lexicon and model disagree on
   topicBreakdown: {
     ourCoin: number
+    peers: number
     generalMarket: number
   }
+  topics: { [topic: string]: TopicMood } // "ours", plus the configured buckets
+  tokens: { [symbol: string]: TopicMood } // our token and the tracked tokens
+  campaigns: {
+    duplicateShare: number // share of tweets that belong to a near-duplicate cluster
+    activeClusters: number
+    largestClusterSize: number
+  }
+}
+
+export interface TopicMood {
+  rawScore: number
+  zScore: number
+  ema5: number
+  ema15: number
+  ema60: number
+  volume: number // estimated tweets in this batch, corrected for ingestion sampling
+  scoredVolume: number // the part of volume that entered the score; below the minimum the scores are carried over
+  share: number // of the batch volume; a tweet can fall into several topics
 }
 
 export interface MarketSignal {
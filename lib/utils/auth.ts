@@ -0,0 +1,29 @@
+/**
+ * Bearer token authentication for internal API routes
+ * Credentials are "name:token" pairs from config; the name is recorded as the
+ * author of whatever the request changes.
+ */
+
+import { timingSafeEqual } from "crypto"
+
+/**
+ * Name of the user whose token the request carries, or null
+ */
+export function authenticateBearer(request: Request, credentials: readonly string[]): string | null {
+  const match = (request.headers.get("authorization") || "").match(/^Bearer\s+(\S+)$/i)
+  if (!match) return null
+
+  const token = Buffer.from(match[1])
+
+  for (const credential of credentials) {
+    const separator = credential.indexOf(":")
+    if (separator <= 0) continue
+
+    const expected = Buffer.from(credential.slice(separator + 1))
+    if (expected.length === token.length && timingSafeEqual(expected, token)) {
+      return credential.slice(0, separator)
+    }
+  }
+
+  return null
+}
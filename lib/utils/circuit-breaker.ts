@@ -0,0 +1,127 @@
+/**
+ * Circuit breaker for calls to an unreliable dependency
+ * Closed: calls go through and their outcomes are tracked over a sliding window.
+ * Open: calls are refused until the cool-down passes or a health check succeeds.
+ * Half-open: a few probe calls decide whether to close again or reopen.
+ */
+
+import { logger } from "@/lib/logger"
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface CircuitBreakerOptions {
+  windowSize: number // most recent call outcomes considered
+  minRequests: number // fewer outcomes in the window never open the circuit
+  errorRateThreshold: number // failure share in the window that opens it
+  openMs: number // cool-down before probing again
+  halfOpenProbes: number // concurrent probe calls while half-open
+  healthFailures: number // consecutive failed health checks that open a closed circuit
+}
+
+export class CircuitBreaker {
+  private name: string
+  private options: CircuitBreakerOptions
+  private state: CircuitState = "closed"
+  private outcomes: boolean[] = [] // true for a failure, oldest first
+  private openedAt = 0
+  private probes = 0
+  private failedChecks = 0
+  private onStateChange?: (state: CircuitState) => void
+
+  constructor(name: string, options: CircuitBreakerOptions, onStateChange?: (state: CircuitState) => void) {
+    this.name = name
+    this.options = options
+    this.onStateChange = onStateChange
+  }
+
+  getState(): CircuitState {
+    return this.state
+  }
+
+  /**
+   * Whether a call may go through now; every allowed call must be followed by
+   * recordSuccess or recordFailure
+   */
+  allowRequest(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.openMs) {
+      this.transition("half-open")
+    }
+
+    if (this.state === "closed") return true
+    if (this.state === "open") return false
+
+    if (this.probes < this.options.halfOpenProbes) {
+      this.probes++
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    if (this.state === "half-open") {
+      this.transition("closed")
+      return
+    }
+    this.push(false)
+  }
+
+  recordFailure(): void {
+    if (this.state === "half-open") {
+      this.transition("open")
+      return
+    }
+    if (this.state === "open") return
+
+    this.push(true)
+
+    const failures = this.outcomes.filter(Boolean).length
+    if (
+      this.outcomes.length >= this.options.minRequests &&
+      failures / this.outcomes.length >= this.options.errorRateThreshold
+    ) {
+      this.transition("open")
+    }
+  }
+
+  /**
+   * Apply an out-of-band health check: a run of failed checks opens the circuit,
+   * so one slow check does not; a passed one lets an open circuit probe without
+   * waiting out the cool-down
+   */
+  recordHealth(healthy: boolean): void {
+    this.failedChecks = healthy ? 0 : this.failedChecks + 1
+
+    if (!healthy && this.state === "closed" && this.failedChecks >= this.options.healthFailures) {
+      this.transition("open")
+    } else if (healthy && this.state === "open") {
+      this.transition("half-open")
+    }
+  }
+
+  private push(failure: boolean): void {
+    this.outcomes.push(failure)
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift()
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) return
+
+    const previous = this.state
+    this.state = state
+    this.probes = 0
+
+    if (state === "open") {
+      this.openedAt = Date.now()
+      logger.warn("Circuit opened", { circuit: this.name, previous, outcomes: this.outcomes.length })
+    } else {
+      logger.info(state === "closed" ? "Circuit closed" : "Circuit half-open", { circuit: this.name, previous })
+    }
+
+    // A closed circuit starts from a clean window
+    if (state === "closed") this.outcomes = []
+
+    this.onStateChange?.(state)
+  }
+}
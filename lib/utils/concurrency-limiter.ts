@@ -0,0 +1,41 @@
+/**
+ * Bounds how many async tasks run at once
+ */
+
+import { logger } from "@/lib/logger"
+
+export class ConcurrencyLimiter {
+  private limit: number
+  private running = new Set<Promise<void>>()
+
+  constructor(limit: number) {
+    // A bad setting must not stall or unbound the caller
+    this.limit = Number.isFinite(limit) ? Math.max(1, Math.floor(limit)) : 1
+  }
+
+  /**
+   * Wait for a free slot, then start the task without waiting for it to finish.
+   * Tasks should handle their own errors; anything left over is only logged.
+   */
+  async schedule(task: () => Promise<void>): Promise<void> {
+    while (this.running.size >= this.limit) {
+      await Promise.race(this.running)
+    }
+
+    const running: Promise<void> = task()
+      .catch((error: any) => logger.error("Concurrent task failed", { error: error.message }))
+      .finally(() => this.running.delete(running))
+    this.running.add(running)
+  }
+
+  /**
+   * Wait for every started task to finish
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.running)
+  }
+
+  getRunning(): number {
+    return this.running.size
+  }
+}
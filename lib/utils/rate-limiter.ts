@@ -7,6 +7,7 @@ export class RateLimiter {
   private maxTokens: number
   private refillRate: number // tokens per second
   private lastRefill: number
+  private blockedUntil = 0 // ms since epoch; no tokens before this
 
   constructor(maxTokens: number, refillRate: number) {
     this.maxTokens = maxTokens
@@ -17,6 +18,15 @@ export class RateLimiter {
 
   private refill(): void {
     const now = Date.now()
+
+    // A server-imposed pause ends with a fresh window
+    if (this.blockedUntil > 0 && now >= this.blockedUntil) {
+      this.blockedUntil = 0
+      this.tokens = this.maxTokens
+      this.lastRefill = now
+      return
+    }
+
     const timePassed = (now - this.lastRefill) / 1000 // seconds
     const tokensToAdd = timePassed * this.refillRate
 
@@ -27,6 +37,10 @@ export class RateLimiter {
   async acquire(tokens = 1): Promise<boolean> {
     this.refill()
 
+    if (Date.now() < this.blockedUntil) {
+      return false
+    }
+
     if (this.tokens >= tokens) {
       this.tokens -= tokens
       return true
@@ -39,11 +53,39 @@ export class RateLimiter {
     while (!(await this.acquire(tokens))) {
       // Calculate wait time
       const tokensNeeded = tokens - this.tokens
-      const waitMs = (tokensNeeded / this.refillRate) * 1000
+      const blockedMs = this.blockedUntil - Date.now()
+      const waitMs = Math.max((tokensNeeded / this.refillRate) * 1000, blockedMs)
       await new Promise((resolve) => setTimeout(resolve, Math.min(waitMs, 1000)))
     }
   }
 
+  /**
+   * Resynchronise with a quota reported by the server
+   */
+  sync(remaining: number, resetAt?: number): void {
+    this.refill()
+    this.tokens = Math.min(this.maxTokens, Math.max(0, remaining))
+
+    if (this.tokens < 1 && resetAt) {
+      this.pauseUntil(resetAt)
+    }
+  }
+
+  /**
+   * Hand out no tokens until the given time (ms since epoch)
+   */
+  pauseUntil(time: number): void {
+    this.tokens = 0
+    this.blockedUntil = Math.max(this.blockedUntil, time)
+  }
+
+  /**
+   * Time the limiter stays paused, or null when it is not paused
+   */
+  getBlockedUntil(): Date | null {
+    return this.blockedUntil > Date.now() ? new Date(this.blockedUntil) : null
+  }
+
   getAvailableTokens(): number {
     this.refill()
     return Math.floor(this.tokens)
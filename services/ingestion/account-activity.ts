@@ -0,0 +1,121 @@
+/**
+ * Account Activity API webhook handling
+ * CRC challenge responses, payload signature checks and mapping of
+ * tweet_create_events (v1.1 tweet objects) to Tweet.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+import type { ReferencedTweet, Tweet } from "@/lib/types"
+
+export interface WebhookTweets {
+  tweets: Tweet[]
+  users: any[] // authors in API v2 user shape, for AuthorStore.upsertFromApi
+}
+
+export class AccountActivityWebhook {
+  private consumerSecret: string
+
+  constructor(consumerSecret: string) {
+    if (!consumerSecret) {
+      throw new Error("Twitter API secret is required for webhook signatures")
+    }
+    this.consumerSecret = consumerSecret
+  }
+
+  /**
+   * Response token for a CRC challenge
+   */
+  createCrcResponse(crcToken: string): string {
+    return `sha256=${this.sign(crcToken)}`
+  }
+
+  /**
+   * Check the x-twitter-webhooks-signature header against the raw request body
+   */
+  verifySignature(rawBody: string, signature: string | null): boolean {
+    if (!signature) return false
+
+    const expected = Buffer.from(`sha256=${this.sign(rawBody)}`)
+    const received = Buffer.from(signature)
+
+    return expected.length === received.length && timingSafeEqual(expected, received)
+  }
+
+  /**
+   * Extract new original tweets from an event payload; retweets are skipped
+   * to match the -is:retweet filter used by search and stream rules
+   */
+  mapTweetCreateEvents(payload: any): WebhookTweets {
+    const events: any[] = payload?.tweet_create_events || []
+    const tweets: Tweet[] = []
+    const users = new Map<string, any>()
+
+    for (const event of events) {
+      if (!event?.id_str || event.retweeted_status) continue
+
+      tweets.push(this.mapTweet(event))
+
+      if (event.user?.id_str) {
+        users.set(event.user.id_str, this.mapUser(event.user))
+      }
+    }
+
+    return { tweets, users: Array.from(users.values()) }
+  }
+
+  private mapTweet(event: any): Tweet {
+    // Tweets over 140 characters keep their full text and entities in extended_tweet
+    const extended = event.extended_tweet || {}
+    const entities = extended.entities || event.entities || {}
+
+    return {
+      id: event.id_str,
+      text: extended.full_text || event.full_text || event.text || "",
+      authorId: event.user?.id_str || "",
+      authorUsername: event.user?.screen_name,
+      createdAt: new Date(event.created_at),
+      metrics: {
+        likes: event.favorite_count || 0,
+        retweets: event.retweet_count || 0,
+        replies: event.reply_count || 0,
+        impressions: 0,
+      },
+      entities: {
+        hashtags: (entities.hashtags || []).map((h: any) => h.text),
+        cashtags: (entities.symbols || []).map((s: any) => s.text),
+        mentions: (entities.user_mentions || []).map((m: any) => m.screen_name),
+        urls: (entities.urls || []).map((u: any) => u.expanded_url || u.url),
+      },
+      source: "twitter:webhook",
+      lang: event.lang,
+      referencedTweets: this.mapQuoted(event.quoted_status),
+    }
+  }
+
+  /**
+   * Only quotes embed their parent; reply events carry just the parent id
+   */
+  private mapQuoted(quoted: any): ReferencedTweet[] | undefined {
+    const text = quoted?.extended_tweet?.full_text || quoted?.text
+    if (!quoted?.id_str || !text) return undefined
+
+    return [{ type: "quoted", id: quoted.id_str, text, authorId: quoted.user?.id_str }]
+  }
+
+  private mapUser(user: any): any {
+    return {
+      id: user.id_str,
+      username: user.screen_name,
+      verified: Boolean(user.verified),
+      created_at: user.created_at,
+      public_metrics: {
+        followers_count: user.followers_count || 0,
+        following_count: user.friends_count || 0,
+      },
+    }
+  }
+
+  private sign(message: string): string {
+    return createHmac("sha256", this.consumerSecret).update(message).digest("base64")
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Author profile store backed by Redis
+ * Filled from search/stream expansions and lazily from user lookups
+ */
+
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { calculateMean, calculateStdDev } from "@/lib/utils/math"
+import type { AuthorProfile } from "@/lib/types"
+
+// Resolves to the API user, null when the lookup failed, or undefined when it was skipped
+export type UserLookup = (userId: string) => Promise<any>
+
+type StoredProfile = Omit<AuthorProfile, "seenTweets" | "cadence">
+
+export class AuthorStore {
+  private redis: Redis
+  private lookup: UserLookup | null
+
+  constructor(lookup?: UserLookup) {
+    this.redis = new Redis()
+    this.lookup = lookup || null
+  }
+
+  /**
+   * Cache user objects returned in `includes.users` expansions
+   */
+  async upsertFromApi(users: any[]): Promise<void> {
+    if (users.length === 0) return
+
+    try {
+      const pipeline = this.redis.pipeline()
+
+      for (const user of users) {
+        if (!user?.id) continue
+        const profile = this.mapUser(user)
+        pipeline.set(this.profileKey(profile.id), JSON.stringify(profile), "EX", config.ingestion.authors.profileTtlSeconds)
+      }
+
+      await pipeline.exec()
+    } catch (error: any) {
+      logger.error("Failed to store author profiles", { error: error.message, count: users.length })
+    }
+  }
+
+  /**
+   * Get an author profile, looking it up when it is not cached
+   */
+  async get(authorId: string): Promise<AuthorProfile | null> {
+    if (!authorId) return null
+
+    try {
+      const [cached, seen, posts, missed] = await Promise.all([
+        this.redis.get(this.profileKey(authorId)),
+        this.redis.get(this.seenKey(authorId)),
+        this.redis.zrange(this.postsKey(authorId), "-50", "-1", "WITHSCORES"),
+        this.redis.exists(this.missKey(authorId)),
+      ])
+      const seenTweets = seen ? Number.parseInt(seen) : 0
+      const cadence = this.calculateCadence(posts)
+
+      if (cached) {
+        return this.deserialize(cached, seenTweets, cadence)
+      }
+
+      if (!this.lookup || missed) return null
+
+      const user = await this.lookup(authorId)
+      if (user === undefined) return null
+
+      // Remember failed lookups for a while instead of retrying them on every tweet
+      if (!user) {
+        await this.redis.set(this.missKey(authorId), "1", "EX", config.ingestion.authors.missTtlSeconds)
+        return null
+      }
+
+      const profile = this.mapUser(user)
+      await this.redis.set(
+        this.profileKey(authorId),
+        JSON.stringify(profile),
+        "EX",
+        config.ingestion.authors.profileTtlSeconds,
+      )
+
+      return { ...profile, seenTweets, cadence }
+    } catch (error: any) {
+      logger.error("Failed to get author profile", { error: error.message, authorId })
+      return null
+    }
+  }
+
+  /**
+   * Count one more tweet seen from this author and track its posting time
+   */
+  async recordTweet(authorId: string, tweetId: string, postedAt: Date): Promise<number> {
+    if (!authorId) return 0
+
+    try {
+      const { seenCountTtlSeconds, cadenceWindowSeconds } = config.ingestion.authors
+      const seenKey = this.seenKey(authorId)
+      const postsKey = this.postsKey(authorId)
+      const postedAtMs = Number.isNaN(postedAt.getTime()) ? Date.now() : postedAt.getTime()
+
+      const count = await this.redis.incr(seenKey)
+      await this.redis.expire(seenKey, seenCountTtlSeconds)
+
+      await this.redis.zadd(postsKey, postedAtMs, tweetId)
+      await this.redis.zremrangebyscore(postsKey, 0, Date.now() - cadenceWindowSeconds * 1000)
+      await this.redis.expire(postsKey, cadenceWindowSeconds)
+
+      return count
+    } catch (error: any) {
+      logger.error("Failed to record author tweet", { error: error.message, authorId })
+      return 0
+    }
+  }
+
+  /**
+   * Posting rate and regularity from a WITHSCORES reply of post timestamps
+   */
+  private calculateCadence(posts: string[]): AuthorProfile["cadence"] {
+    const timestamps: number[] = []
+    for (let i = 1; i < posts.length; i += 2) {
+      timestamps.push(Number(posts[i]))
+    }
+
+    const hourAgo = Date.now() - 60 * 60 * 1000
+    const postsLastHour = timestamps.filter((timestamp) => timestamp >= hourAgo).length
+
+    // Need a few gaps before regularity means anything
+    if (timestamps.length < 5) {
+      return { postsLastHour, intervalCv: null }
+    }
+
+    const gaps: number[] = []
+    for (let i = 1; i < timestamps.length; i++) {
+      gaps.push(timestamps[i] - timestamps[i - 1])
+    }
+
+    const mean = calculateMean(gaps)
+    const intervalCv = mean > 0 ? calculateStdDev(gaps) / mean : 0
+
+    return { postsLastHour, intervalCv }
+  }
+
+  private mapUser(user: any): StoredProfile {
+    return {
+      id: String(user.id),
+      username: user.username,
+      followers: user.public_metrics?.followers_count || 0,
+      following: user.public_metrics?.following_count || 0,
+      verified: Boolean(user.verified),
+      accountCreatedAt: user.created_at ? new Date(user.created_at) : null,
+      updatedAt: new Date(),
+    }
+  }
+
+  private deserialize(json: string, seenTweets: number, cadence: AuthorProfile["cadence"]): AuthorProfile {
+    const stored = JSON.parse(json)
+    return {
+      ...stored,
+      accountCreatedAt: stored.accountCreatedAt ? new Date(stored.accountCreatedAt) : null,
+      updatedAt: new Date(stored.updatedAt),
+      seenTweets,
+      cadence,
+    }
+  }
+
+  private profileKey(authorId: string): string {
+    return `author:${authorId}`
+  }
+
+  private seenKey(authorId: string): string {
+    return `author:${authorId}:seen`
+  }
+
+  private postsKey(authorId: string): string {
+    return `author:${authorId}:posts`
+  }
+
+  private missKey(authorId: string): string {
+    return `author:${authorId}:miss`
+  }
+}
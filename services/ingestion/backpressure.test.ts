@@ -0,0 +1,22 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { config } from "@/lib/config"
+import { throttledSampleRate } from "./backpressure"
+
+const settings = { ...config.ingestion.backpressure, highWatermark: 5000, lowWatermark: 1000 }
+
+test("throttled intake is sampled between the watermarks", () => {
+  for (const depth of [1001, 3000, 4999]) {
+    const rate = throttledSampleRate(depth, settings)
+    assert.ok(rate < 1, `rate ${rate} at depth ${depth}`)
+    assert.equal(rate, settings.throttledSampleRate)
+  }
+})
+
+test("sample rate shrinks past the high watermark down to the minimum", () => {
+  const atHigh = throttledSampleRate(5000, settings)
+  const above = throttledSampleRate(10000, settings)
+
+  assert.ok(above < atHigh)
+  assert.equal(throttledSampleRate(10_000_000, settings), settings.minSampleRate)
+})
@@ -0,0 +1,161 @@
+/**
+ * Queue-depth aware ingestion throttling
+ * Switches to throttled above the high watermark and back to normal below the
+ * low watermark, so the state does not flap around a single threshold.
+ */
+
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import type { TweetQueue } from "./queue"
+
+export type BackpressureState = "normal" | "throttled"
+
+export interface AdmissionDecision {
+  admit: boolean
+  sampleWeight: number // inverse of the keep probability, for volume correction
+}
+
+export type IngestionCounter = "fetched" | "filtered" | "enqueued" | "sampled" | "sampledOut" | "paused"
+
+type BackpressureSettings = typeof config.ingestion.backpressure
+
+/**
+ * Base keep rate while throttled: below 1 from the start, so intake drops
+ * until the queue drains to the low watermark, and shrinking in proportion
+ * as the queue grows past the high watermark
+ */
+export function throttledSampleRate(
+  depth: number,
+  settings: BackpressureSettings = config.ingestion.backpressure,
+): number {
+  const { highWatermark, throttledSampleRate: rate, minSampleRate } = settings
+  return Math.max(minSampleRate, rate * Math.min(1, highWatermark / Math.max(depth, 1)))
+}
+
+export class BackpressureController {
+  private queue: TweetQueue
+  private redis: Redis
+  private state: BackpressureState = "normal"
+  private depth = 0
+  private lastCheck = 0
+  private readonly statsKey = "ingestion:stats"
+
+  constructor(queue: TweetQueue) {
+    const { highWatermark, lowWatermark } = config.ingestion.backpressure
+    if (lowWatermark >= highWatermark) {
+      throw new Error(`Queue low watermark (${lowWatermark}) must be below the high watermark (${highWatermark})`)
+    }
+
+    this.queue = queue
+    this.redis = new Redis()
+  }
+
+  /**
+   * Re-read the queue depth (at most once per check interval) and update the state
+   */
+  async refresh(force = false): Promise<BackpressureState> {
+    const { highWatermark, lowWatermark, checkIntervalMs, mode } = config.ingestion.backpressure
+    const now = Date.now()
+
+    if (!force && now - this.lastCheck < checkIntervalMs) {
+      return this.state
+    }
+
+    this.lastCheck = now
+    this.depth = await this.queue.getQueueLength()
+
+    if (this.state === "normal" && this.depth >= highWatermark) {
+      this.state = "throttled"
+      logger.warn("Queue above high watermark, throttling ingestion", { depth: this.depth, highWatermark, mode })
+      await this.recordState()
+    } else if (this.state === "throttled" && this.depth <= lowWatermark) {
+      this.state = "normal"
+      logger.info("Queue below low watermark, resuming full ingestion", { depth: this.depth, lowWatermark })
+      await this.recordState()
+    }
+
+    return this.state
+  }
+
+  /**
+   * Whether the worker should hold off fetching altogether
+   */
+  shouldPause(): boolean {
+    return this.state === "throttled" && config.ingestion.backpressure.mode === "pause"
+  }
+
+  /**
+   * Decide whether a tweet is kept. While throttled in sample mode the keep
+   * probability scales with author weight, so influential voices survive.
+   */
+  admit(authorWeight: number): AdmissionDecision {
+    if (this.state === "normal") {
+      return { admit: true, sampleWeight: 1 }
+    }
+
+    if (config.ingestion.backpressure.mode === "pause") {
+      return { admit: false, sampleWeight: 0 }
+    }
+
+    const keepProbability = Math.min(1, this.getSampleRate() * Math.max(authorWeight, 0.1))
+    return {
+      admit: Math.random() < keepProbability,
+      sampleWeight: 1 / keepProbability,
+    }
+  }
+
+  /**
+   * Base keep rate; 1 unless throttled
+   */
+  getSampleRate(): number {
+    return this.state === "normal" ? 1 : throttledSampleRate(this.depth)
+  }
+
+  getState(): BackpressureState {
+    return this.state
+  }
+
+  getDepth(): number {
+    return this.depth
+  }
+
+  /**
+   * Add to the running ingestion counters
+   */
+  async count(counts: Partial<Record<IngestionCounter, number>>): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline()
+      for (const [field, value] of Object.entries(counts)) {
+        if (value) pipeline.hincrby(this.statsKey, field, value)
+      }
+      await pipeline.exec()
+    } catch (error: any) {
+      logger.error("Failed to record ingestion stats", { error: error.message })
+    }
+  }
+
+  /**
+   * Running counters plus the current throttling state
+   */
+  async getStats(): Promise<{ [field: string]: string }> {
+    try {
+      return await this.redis.hgetall(this.statsKey)
+    } catch (error: any) {
+      logger.error("Failed to read ingestion stats", { error: error.message })
+      return {}
+    }
+  }
+
+  private async recordState(): Promise<void> {
+    try {
+      await this.redis.hset(this.statsKey, {
+        state: this.state,
+        depth: this.depth,
+        stateChangedAt: Date.now(),
+      })
+    } catch (error: any) {
+      logger.error("Failed to record backpressure state", { error: error.message })
+    }
+  }
+}
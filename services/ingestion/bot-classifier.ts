@@ -0,0 +1,135 @@
+/**
+ * Probabilistic bot classifier
+ * Combines text, account and posting-cadence features in a logistic model
+ */
+
+import type { AuthorProfile, BotScore, Tweet } from "@/lib/types"
+
+interface FeatureHit {
+  weight: number // log-odds contribution
+  reason: string
+}
+
+export class BotClassifier {
+  // Log-odds of an average account being a bot before any evidence
+  private readonly bias = -2.5
+  private spamPatterns: RegExp[]
+
+  constructor() {
+    this.spamPatterns = [
+      /follow.*back/i,
+      /dm.*for/i,
+      /check.*bio/i,
+      /link.*in.*bio/i,
+      /giveaway/i,
+      /airdrop.*claim/i,
+      /claim.*airdrop/i,
+    ]
+  }
+
+  /**
+   * Score a tweet; the author profile adds account and cadence evidence when known
+   */
+  score(tweet: Tweet, author?: AuthorProfile | null): BotScore {
+    const hits = [...this.textFeatures(tweet), ...this.accountFeatures(author), ...this.cadenceFeatures(author)]
+
+    const logit = hits.reduce((sum, hit) => sum + hit.weight, this.bias)
+    const probability = 1 / (1 + Math.exp(-logit))
+
+    const reasons = hits
+      .filter((hit) => hit.weight > 0)
+      .sort((a, b) => b.weight - a.weight)
+      .map((hit) => hit.reason)
+
+    return { probability, reasons }
+  }
+
+  private textFeatures(tweet: Tweet): FeatureHit[] {
+    const hits: FeatureHit[] = []
+    // Tweets queued before the raw text was kept have mentions cleaned to "@USER"
+    const text = tweet.text.replace(/@USER\b/g, "")
+
+    // Check for excessive hashtags
+    const hashtagCount = tweet.entities?.hashtags?.length || 0
+    if (hashtagCount > 5) {
+      hits.push({ weight: 2.0, reason: `excessive hashtags (${hashtagCount})` })
+    } else if (hashtagCount >= 3) {
+      hits.push({ weight: 0.7, reason: `many hashtags (${hashtagCount})` })
+    }
+
+    const cashtagCount = tweet.entities?.cashtags?.length || 0
+    if (cashtagCount > 3) {
+      hits.push({ weight: 1.0, reason: `cashtag stuffing (${cashtagCount})` })
+    }
+
+    const mentionCount = tweet.entities?.mentions?.length || 0
+    if (mentionCount > 3) {
+      hits.push({ weight: 0.8, reason: `mass mentions (${mentionCount})` })
+    }
+
+    // Check for spam patterns
+    if (this.spamPatterns.some((pattern) => pattern.test(text))) {
+      hits.push({ weight: 2.5, reason: "spam phrase" })
+    }
+
+    // Check for excessive caps, on the original casing
+    const letters = text.match(/\p{L}/gu) || []
+    const caps = text.match(/\p{Lu}/gu) || []
+    const capsRatio = letters.length > 0 ? caps.length / letters.length : 0
+    if (capsRatio > 0.5 && text.length > 20) {
+      hits.push({ weight: 1.0, reason: `excessive caps (${Math.round(capsRatio * 100)}%)` })
+    }
+
+    return hits
+  }
+
+  private accountFeatures(author?: AuthorProfile | null): FeatureHit[] {
+    if (!author) return []
+
+    const hits: FeatureHit[] = []
+
+    if (author.verified) {
+      hits.push({ weight: -1.5, reason: "verified" })
+    }
+
+    if (author.accountCreatedAt) {
+      const ageDays = (Date.now() - author.accountCreatedAt.getTime()) / (24 * 60 * 60 * 1000)
+      if (ageDays < 7) {
+        hits.push({ weight: 1.5, reason: `account ${Math.floor(ageDays)} days old` })
+      } else if (ageDays < 30) {
+        hits.push({ weight: 0.7, reason: `account ${Math.floor(ageDays)} days old` })
+      } else if (ageDays > 365) {
+        hits.push({ weight: -0.5, reason: "established account" })
+      }
+    }
+
+    // Follow-farming: follows many, followed by few
+    if (author.following > 500 && author.followers / author.following < 0.1) {
+      hits.push({ weight: 1.2, reason: `follower/following ratio ${(author.followers / author.following).toFixed(2)}` })
+    } else if (author.followers < 10) {
+      hits.push({ weight: 0.5, reason: `only ${author.followers} followers` })
+    }
+
+    return hits
+  }
+
+  private cadenceFeatures(author?: AuthorProfile | null): FeatureHit[] {
+    if (!author) return []
+
+    const hits: FeatureHit[] = []
+    const { postsLastHour, intervalCv } = author.cadence
+
+    if (postsLastHour > 20) {
+      hits.push({ weight: 2.0, reason: `${postsLastHour} posts in the last hour` })
+    } else if (postsLastHour > 8) {
+      hits.push({ weight: 1.0, reason: `${postsLastHour} posts in the last hour` })
+    }
+
+    // Humans post in bursts; schedulers post on a clock
+    if (intervalCv !== null && intervalCv < 0.15) {
+      hits.push({ weight: 1.5, reason: `machine-regular posting (cv ${intervalCv.toFixed(2)})` })
+    }
+
+    return hits
+  }
+}
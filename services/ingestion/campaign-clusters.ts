@@ -0,0 +1,128 @@
+/**
+ * Rolling near-duplicate clusters for copypasta campaign detection
+ * SimHash fingerprints are bucketed with LSH bands so candidate clusters
+ * can be found without scanning every fingerprint.
+ */
+
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+
+export interface ClusterAssignment {
+  clusterId: string
+  clusterSize: number
+}
+
+export class CampaignClusterStore {
+  private redis: Redis
+  // 64-bit fingerprint split into 4 bands of 16 bits: any two fingerprints
+  // within 3 differing bits share at least one band exactly
+  private readonly bandCount = 4
+
+  constructor() {
+    this.redis = new Redis()
+  }
+
+  /**
+   * Assign a tweet to an existing near-duplicate cluster or start a new one.
+   * A redelivered tweet gets its first assignment back and is not counted again.
+   */
+  async assign(tweetId: string, fingerprint: string | null): Promise<ClusterAssignment> {
+    const unique = { clusterId: tweetId, clusterSize: 1 }
+    if (!fingerprint) return unique
+
+    const { hammingThreshold, windowSeconds } = config.sentiment.duplicates
+
+    try {
+      const memberKey = this.memberKey(tweetId)
+      const previous = await this.redis.get(memberKey)
+      if (previous) return JSON.parse(previous)
+
+      const bandKeys = this.getBands(fingerprint).map((band, index) => `campaign:band:${index}:${band}`)
+      const candidates = Array.from(new Set((await this.redis.mget(...bandKeys)).filter(Boolean))) as string[]
+
+      for (const clusterId of candidates) {
+        const clusterKey = this.clusterKey(clusterId)
+        const representative = await this.redis.hget(clusterKey, "fingerprint")
+
+        if (!representative || this.hammingDistance(representative, fingerprint) > hammingThreshold) {
+          continue
+        }
+
+        const clusterSize = await this.redis.hincrby(clusterKey, "size", 1)
+        const assignment = { clusterId, clusterSize }
+
+        // A copy of this tweet assigned in the meantime keeps its place; take the count back
+        if (!(await this.redis.set(memberKey, JSON.stringify(assignment), "EX", windowSeconds, "NX"))) {
+          await this.redis.hincrby(clusterKey, "size", -1)
+          return JSON.parse((await this.redis.get(memberKey))!)
+        }
+
+        await this.redis.hset(clusterKey, "lastSeen", Date.now())
+        await this.redis.expire(clusterKey, windowSeconds)
+        await this.indexBands(bandKeys, clusterId, windowSeconds)
+
+        return assignment
+      }
+
+      if (!(await this.redis.set(memberKey, JSON.stringify(unique), "EX", windowSeconds, "NX"))) {
+        return JSON.parse((await this.redis.get(memberKey))!)
+      }
+
+      await this.redis.hset(this.clusterKey(tweetId), {
+        fingerprint,
+        size: 1,
+        firstSeen: Date.now(),
+        lastSeen: Date.now(),
+      })
+      await this.redis.expire(this.clusterKey(tweetId), windowSeconds)
+      await this.indexBands(bandKeys, tweetId, windowSeconds)
+
+      return unique
+    } catch (error: any) {
+      logger.error("Failed to assign campaign cluster", { error: error.message, tweetId })
+      return unique
+    }
+  }
+
+  /**
+   * Point band buckets at a cluster, keeping buckets that already belong to a live cluster
+   */
+  private async indexBands(bandKeys: string[], clusterId: string, windowSeconds: number): Promise<void> {
+    const pipeline = this.redis.pipeline()
+    for (const key of bandKeys) {
+      pipeline.set(key, clusterId, "EX", windowSeconds, "NX")
+    }
+    await pipeline.exec()
+  }
+
+  private getBands(fingerprint: string): string[] {
+    const width = fingerprint.length / this.bandCount
+    const bands: string[] = []
+    for (let i = 0; i < this.bandCount; i++) {
+      bands.push(fingerprint.slice(i * width, (i + 1) * width))
+    }
+    return bands
+  }
+
+  private hammingDistance(a: string, b: string): number {
+    let distance = 0
+    // Compare 32 bits at a time to stay within safe bitwise integer range
+    for (let i = 0; i < a.length; i += 8) {
+      let diff = (Number.parseInt(a.slice(i, i + 8), 16) ^ Number.parseInt(b.slice(i, i + 8), 16)) >>> 0
+      while (diff) {
+        diff &= diff - 1
+        distance++
+      }
+    }
+    return distance
+  }
+
+  private clusterKey(clusterId: string): string {
+    return `campaign:cluster:${clusterId}`
+  }
+
+  private memberKey(tweetId: string): string {
+    return `campaign:member:${tweetId}`
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Token entity extraction
+ * Finds cashtags, Solana mint addresses, launchpad/explorer links, project
+ * handles and names in a tweet and resolves them against the token registry.
+ * Runs on the raw tweet, before cleaning strips links and handles.
+ */
+
+import type { TokenMention, Tweet } from "@/lib/types"
+import { TokenRegistry, type RegisteredToken } from "./token-registry"
+
+type MentionSource = TokenMention["via"][number]
+
+// Base58 without 0, O, I and l; Solana public keys are 32-44 characters
+const MINT_PATTERN = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g
+
+// Links that carry a token mint in their path
+const TOKEN_LINK_PATTERNS = [
+  /pump\.fun\/(?:coin\/)?([1-9A-HJ-NP-Za-km-z]{32,44})/g,
+  /birdeye\.so\/token\/([1-9A-HJ-NP-Za-km-z]{32,44})/g,
+  /solscan\.io\/token\/([1-9A-HJ-NP-Za-km-z]{32,44})/g,
+  /jup\.ag\/swap\/(?:\w+-)?([1-9A-HJ-NP-Za-km-z]{32,44})/g,
+]
+
+export class EntityExtractor {
+  private registry: TokenRegistry
+
+  constructor(registry?: TokenRegistry) {
+    this.registry = registry || new TokenRegistry()
+  }
+
+  /**
+   * Tokens a tweet mentions, one entry per token with every way it was mentioned
+   */
+  extract(tweet: Tweet): TokenMention[] {
+    const mentions = new Map<string, TokenMention>()
+    const text = tweet.text
+    const urls = tweet.entities?.urls || []
+
+    const add = (registered: RegisteredToken | null, source: MentionSource, fallback: Partial<TokenMention>) => {
+      const symbol = registered?.symbol ?? fallback.symbol ?? null
+      const mintAddress = registered?.mintAddress ?? fallback.mintAddress ?? null
+      const key = registered ? `registry:${registered.symbol}` : `${symbol ?? ""}:${mintAddress ?? ""}`
+
+      const existing = mentions.get(key)
+      if (existing) {
+        if (!existing.via.includes(source)) existing.via.push(source)
+        return
+      }
+
+      mentions.set(key, { symbol, mintAddress, role: registered?.role ?? "unknown", via: [source] })
+    }
+
+    // Cashtags: API entities when present, otherwise parsed from the text
+    const cashtags = tweet.entities?.cashtags?.length
+      ? tweet.entities.cashtags
+      : this.matchAll(text, /\$([A-Za-z][A-Za-z0-9]{1,9})\b/g)
+    for (const cashtag of cashtags) {
+      const symbol = cashtag.replace(/^\$/, "").toUpperCase()
+      add(this.registry.findBySymbol(symbol), "cashtag", { symbol })
+    }
+
+    // Links first, so their mints are not counted again as bare addresses
+    const linked = new Set<string>()
+    for (const source of [text, ...urls]) {
+      for (const pattern of TOKEN_LINK_PATTERNS) {
+        for (const mintAddress of this.matchAll(source, pattern)) {
+          linked.add(mintAddress)
+          add(this.registry.findByMint(mintAddress), "link", { mintAddress })
+        }
+      }
+    }
+
+    for (const candidate of this.matchAll(text, MINT_PATTERN, 0)) {
+      if (linked.has(candidate) || !this.looksLikeMint(candidate)) continue
+      add(this.registry.findByMint(candidate), "mint", { mintAddress: candidate })
+    }
+
+    // Handles only count when they belong to a registered project
+    const handles = tweet.entities?.mentions?.length ? tweet.entities.mentions : this.matchAll(text, /@(\w{1,15})/g)
+    for (const handle of handles) {
+      const registered = this.registry.findByHandle(handle)
+      if (registered) add(registered, "handle", {})
+    }
+
+    for (const registered of this.registry.findAliases(text)) {
+      add(registered, "alias", {})
+    }
+
+    return Array.from(mentions.values())
+  }
+
+  /**
+   * Tell base58 keys from long words: real keys mix cases and digits
+   */
+  private looksLikeMint(candidate: string): boolean {
+    return /[a-z]/.test(candidate) && /[A-Z]/.test(candidate) && /[1-9]/.test(candidate)
+  }
+
+  private matchAll(text: string, pattern: RegExp, group = 1): string[] {
+    const matches: string[] = []
+    const regex = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`)
+    let match: RegExpExecArray | null
+
+    while ((match = regex.exec(text)) !== null) {
+      matches.push(match[group])
+    }
+
+    return matches
+  }
+}
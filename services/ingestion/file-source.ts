@@ -0,0 +1,291 @@
+/**
+ * File-backed social source that replays recorded tweets from JSONL or CSV
+ */
+
+import { promises as fs } from "fs"
+import path from "path"
+import { logger } from "@/lib/logger"
+import type { Tweet } from "@/lib/types"
+import type { SocialSource, TweetHandler } from "./social-source"
+
+export class FileReplaySource implements SocialSource {
+  readonly name: string
+  private filePath: string
+  private speed: number
+  private batchSize: number
+  private records: Tweet[] | null = null
+  private cursor = 0
+  private replayStartedAt: number | null = null
+  private isStreaming = false
+  private finishedLogged = false
+
+  /**
+   * @param speed 1 replays in real time, 60 plays one recorded hour per minute, 0 replays without delays
+   */
+  constructor(filePath: string, speed = 1, batchSize = 100) {
+    this.filePath = filePath
+    this.speed = speed
+    this.batchSize = batchSize
+    this.name = `replay:${path.basename(filePath)}`
+  }
+
+  /**
+   * Return every record whose replay time has elapsed since the previous call
+   */
+  async fetchBatch(): Promise<Tweet[]> {
+    const records = await this.load()
+
+    if (this.cursor >= records.length) {
+      this.logFinished()
+      return []
+    }
+
+    // Without a replay clock, hand out fixed-size batches
+    if (this.speed <= 0) {
+      const batch = records.slice(this.cursor, this.cursor + this.batchSize)
+      this.cursor += batch.length
+      return batch
+    }
+
+    if (this.replayStartedAt === null) {
+      this.replayStartedAt = Date.now()
+    }
+
+    const virtualNow = records[0].createdAt.getTime() + (Date.now() - this.replayStartedAt) * this.speed
+    const batch: Tweet[] = []
+
+    while (this.cursor < records.length && records[this.cursor].createdAt.getTime() <= virtualNow) {
+      batch.push(records[this.cursor])
+      this.cursor++
+    }
+
+    return batch
+  }
+
+  /**
+   * Every record has been handed out
+   */
+  isExhausted(): boolean {
+    return this.records !== null && this.cursor >= this.records.length
+  }
+
+  /**
+   * Replay records one by one, keeping the recorded gaps scaled by speed
+   */
+  async stream(onTweet: TweetHandler): Promise<void> {
+    const records = await this.load()
+    this.isStreaming = true
+
+    while (this.isStreaming && this.cursor < records.length) {
+      const tweet = records[this.cursor]
+      const previous = this.cursor > 0 ? records[this.cursor - 1] : null
+
+      if (previous && this.speed > 0) {
+        const gapMs = tweet.createdAt.getTime() - previous.createdAt.getTime()
+        if (gapMs > 0) {
+          await this.sleep(gapMs / this.speed)
+        }
+      }
+
+      if (!this.isStreaming) break
+
+      this.cursor++
+
+      try {
+        await onTweet(tweet)
+      } catch (error: any) {
+        logger.error("Replay tweet handler failed", {
+          error: error.message,
+          tweetId: tweet.id,
+        })
+      }
+    }
+
+    if (this.cursor >= records.length) {
+      this.logFinished()
+    }
+  }
+
+  /**
+   * Stop an active replay
+   */
+  stop(): void {
+    this.isStreaming = false
+  }
+
+  /**
+   * Read and parse the file once, sorted by creation time
+   */
+  private async load(): Promise<Tweet[]> {
+    if (this.records) return this.records
+
+    const content = await fs.readFile(this.filePath, "utf8")
+    const rows = path.extname(this.filePath).toLowerCase() === ".csv" ? this.parseCsv(content) : this.parseJsonl(content)
+
+    const records: Tweet[] = []
+    let skipped = 0
+
+    for (const row of rows) {
+      const tweet = this.mapRecord(row)
+      if (tweet) {
+        records.push(tweet)
+      } else {
+        skipped++
+      }
+    }
+
+    records.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    this.records = records
+
+    logger.info("Replay file loaded", {
+      file: this.filePath,
+      records: records.length,
+      skipped,
+      speed: this.speed,
+    })
+
+    return records
+  }
+
+  private parseJsonl(content: string): any[] {
+    const rows: any[] = []
+    const lines = content.split(/\r?\n/)
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim()
+      if (!line) continue
+
+      try {
+        rows.push(JSON.parse(line))
+      } catch (error: any) {
+        logger.warn("Skipping malformed replay line", { line: i + 1, error: error.message })
+      }
+    }
+
+    return rows
+  }
+
+  /**
+   * Parse CSV with a header row; supports quoted fields with escaped quotes and newlines
+   */
+  private parseCsv(content: string): any[] {
+    const table: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let inQuotes = false
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"'
+          i++
+        } else if (char === '"') {
+          inQuotes = false
+        } else {
+          field += char
+        }
+      } else if (char === '"') {
+        inQuotes = true
+      } else if (char === ",") {
+        row.push(field)
+        field = ""
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") i++
+        row.push(field)
+        table.push(row)
+        row = []
+        field = ""
+      } else {
+        field += char
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field)
+      table.push(row)
+    }
+
+    const [header, ...body] = table.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+    if (!header) return []
+
+    const columns = header.map((column) => column.trim())
+    return body.map((cells) => {
+      const record: { [key: string]: string } = {}
+      columns.forEach((column, index) => {
+        record[column] = cells[index] ?? ""
+      })
+      return record
+    })
+  }
+
+  /**
+   * Map a recorded row to Tweet. Accepts X API v2 tweet objects, serialized
+   * Tweet objects, and flat CSV columns.
+   */
+  private mapRecord(row: any): Tweet | null {
+    const id = row.id ?? row.id_str
+    const text = row.text ?? row.full_text
+    const createdAt = new Date(row.createdAt ?? row.created_at)
+
+    if (!id || typeof text !== "string" || Number.isNaN(createdAt.getTime())) {
+      return null
+    }
+
+    const publicMetrics = row.public_metrics || {}
+    const metrics = row.metrics || {
+      likes: publicMetrics.like_count ?? row.like_count,
+      retweets: publicMetrics.retweet_count ?? row.retweet_count,
+      replies: publicMetrics.reply_count ?? row.reply_count,
+      impressions: publicMetrics.impression_count ?? row.impression_count,
+    }
+
+    return {
+      id: String(id),
+      text,
+      authorId: String(row.authorId ?? row.author_id ?? ""),
+      authorUsername: row.authorUsername ?? row.author_username ?? undefined,
+      createdAt,
+      metrics: {
+        likes: Number(metrics.likes) || 0,
+        retweets: Number(metrics.retweets) || 0,
+        replies: Number(metrics.replies) || 0,
+        impressions: Number(metrics.impressions) || 0,
+      },
+      entities: {
+        hashtags: this.mapEntityList(row.entities?.hashtags ?? row.hashtags, "tag"),
+        cashtags: this.mapEntityList(row.entities?.cashtags ?? row.cashtags, "tag"),
+        mentions: this.mapEntityList(row.entities?.mentions ?? row.mentions, "username"),
+        urls: this.mapEntityList(row.entities?.urls ?? row.urls, "expanded_url"),
+      },
+      source: this.name,
+      lang: row.lang || undefined,
+      referencedTweets: Array.isArray(row.referencedTweets) ? row.referencedTweets : undefined,
+    }
+  }
+
+  /**
+   * Entities arrive as API objects, plain strings, or a space-separated CSV cell
+   */
+  private mapEntityList(value: any, key: string): string[] {
+    if (!value) return []
+    if (typeof value === "string") {
+      return value.split(/\s+/).filter((item) => item.length > 0)
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => (typeof item === "string" ? item : item?.[key])).filter(Boolean)
+    }
+    return []
+  }
+
+  private logFinished(): void {
+    if (this.finishedLogged) return
+    this.finishedLogged = true
+    logger.info("Replay finished", { file: this.filePath })
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Shared intake path from any source into tweets:pending
+ * Cleans and filters tweets, applies backpressure sampling and enqueues the
+ * survivors; used by the polling/stream worker and the webhook receiver.
+ */
+
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import type { Tweet } from "@/lib/types"
+import { TweetPreprocessor } from "./preprocessor"
+import { TweetQueue } from "./queue"
+import { AuthorStore } from "./author-store"
+import { BackpressureController, type IngestionCounter } from "./backpressure"
+
+export type IngestionCounts = Record<IngestionCounter, number>
+
+type IngestOutcome = Exclude<IngestionCounter, "fetched" | "sampled">
+
+export class TweetIntake {
+  private preprocessor: TweetPreprocessor
+  private queue: TweetQueue
+  private backpressureController: BackpressureController
+  private authors: AuthorStore
+  private officialHandles: Set<string>
+
+  constructor(queue?: TweetQueue) {
+    this.preprocessor = new TweetPreprocessor()
+    this.queue = queue || new TweetQueue()
+    this.backpressureController = new BackpressureController(this.queue)
+    // Read-only view of the profiles sources cache from expansions
+    this.authors = new AuthorStore()
+    this.officialHandles = new Set(config.token.handles.map((handle) => handle.replace(/^@/, "").toLowerCase()))
+  }
+
+  get backpressure(): BackpressureController {
+    return this.backpressureController
+  }
+
+  /**
+   * Filter and enqueue tweets, recording what happened to each of them
+   */
+  async ingest(tweets: Tweet[]): Promise<IngestionCounts> {
+    const counts: IngestionCounts = {
+      fetched: tweets.length,
+      filtered: 0,
+      enqueued: 0,
+      sampled: 0,
+      sampledOut: 0,
+      paused: 0,
+    }
+
+    for (const tweet of tweets) {
+      const outcome = await this.ingestTweet(tweet)
+      counts[outcome]++
+      if (outcome === "enqueued" && this.backpressureController.getState() === "throttled") counts.sampled++
+    }
+
+    await this.backpressureController.count(counts)
+    return counts
+  }
+
+  /**
+   * Filter a single tweet and enqueue it; returns what happened to it
+   */
+  private async ingestTweet(tweet: Tweet): Promise<IngestOutcome> {
+    try {
+      // Our own accounts' posts would be scored as mood about our token
+      if (await this.isOfficialAccount(tweet)) {
+        return "filtered"
+      }
+
+      // Preprocess
+      const tokens = this.preprocessor.extractTokens(tweet)
+      const cleanedText = this.preprocessor.cleanText(tweet.text)
+      const referencedTweets = tweet.referencedTweets?.map((reference) => ({
+        ...reference,
+        text: this.preprocessor.cleanText(reference.text),
+      }))
+      const contextText = (referencedTweets || []).map((reference) => reference.text).join(" ")
+
+      // "lol this" has too little text to identify; fall back to what it responds to
+      let detected = this.preprocessor.detectLanguage(cleanedText, tweet.lang)
+      if (detected.language === "und" && contextText) {
+        detected = this.preprocessor.detectLanguage(contextText)
+      }
+      const { language, confidence } = detected
+
+      const bot = this.preprocessor.scoreBot(tweet)
+
+      // Skip tweets outside the allowed languages and near-certain bots; the
+      // rest are down-weighted by bot score during aggregation
+      if (
+        !config.ingestion.allowedLanguages.includes(language) ||
+        bot.probability >= config.ingestion.bots.dropThreshold
+      ) {
+        logger.debug("Skipping tweet", {
+          tweetId: tweet.id,
+          language,
+          languageConfidence: confidence,
+          botScore: bot.probability,
+          botReasons: bot.reasons,
+        })
+        return "filtered"
+      }
+
+      // Extract crypto features, counting the context a reply or quote responds to
+      const cryptoFeatures = this.preprocessor.extractCryptoFeatures(`${cleanedText} ${contextText}`)
+
+      // Only process tweets with crypto keywords or about our token
+      if (!cryptoFeatures.hasCryptoKeywords && !tokens.some((token) => token.role === "ours")) {
+        return "filtered"
+      }
+
+      // Above the high watermark, keep a sample weighted towards influential authors
+      let sampleWeight = 1
+      if ((await this.backpressureController.refresh()) === "throttled") {
+        const author = await this.authors.get(tweet.authorId)
+        const decision = this.backpressureController.admit(this.preprocessor.calculateAuthorWeight(tweet, author))
+        if (!decision.admit) {
+          return this.backpressureController.shouldPause() ? "paused" : "sampledOut"
+        }
+        sampleWeight = decision.sampleWeight
+      }
+
+      // Enqueue for sentiment analysis
+      await this.queue.enqueue({
+        ...tweet,
+        text: cleanedText,
+        rawText: tweet.text,
+        referencedTweets,
+        tokens,
+        sampleWeight,
+      })
+      return "enqueued"
+    } catch (error: any) {
+      logger.error("Failed to process tweet", {
+        error: error.message,
+        tweetId: tweet.id,
+      })
+      return "filtered"
+    }
+  }
+
+  /**
+   * Whether a tweet was posted by one of the token's official handles; falls back to
+   * the cached profile when the source did not report the author's handle
+   */
+  private async isOfficialAccount(tweet: Tweet): Promise<boolean> {
+    if (this.officialHandles.size === 0) return false
+
+    const username = tweet.authorUsername ?? (await this.authors.get(tweet.authorId))?.username
+    return Boolean(username && this.officialHandles.has(username.toLowerCase()))
+  }
+}
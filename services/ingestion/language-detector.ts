@@ -0,0 +1,185 @@
+/**
+ * Offline language identification
+ * Non-Latin scripts are identified by script; Latin-script text is matched
+ * against character n-gram profiles built from embedded seed corpora.
+ */
+
+import { languageSeedCorpora } from "./language-profiles"
+
+export interface LanguageResult {
+  language: string // ISO 639-1 code, or "und" when undetermined
+  confidence: number // 0 to 1
+}
+
+interface Profile {
+  counts: Map<string, number>
+  total: number
+}
+
+// X uses these for tweets without linguistic content
+const UNDETERMINED_API_CODES = new Set(["und", "qme", "qht", "qam", "qst", "zxx", "art"])
+
+// Legacy codes X still returns for some languages
+const API_CODE_ALIASES: { [code: string]: string } = {
+  in: "id",
+  iw: "he",
+}
+
+export class LanguageDetector {
+  private profiles: Map<string, Profile>
+  private scripts: Array<{ language: string; pattern: RegExp }>
+  private vocabularySize: number
+  private readonly maxNgram = 3
+  private readonly minLetters = 8
+
+  constructor() {
+    this.profiles = new Map()
+    const vocabulary = new Set<string>()
+    for (const [language, corpus] of Object.entries(languageSeedCorpora)) {
+      const profile = this.buildProfile(corpus)
+      this.profiles.set(language, profile)
+      profile.counts.forEach((_, gram) => vocabulary.add(gram))
+    }
+    this.vocabularySize = vocabulary.size
+
+    // Order matters: Japanese text also contains Han characters
+    this.scripts = [
+      { language: "ja", pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+      { language: "ko", pattern: /\p{Script=Hangul}/gu },
+      { language: "zh", pattern: /\p{Script=Han}/gu },
+      { language: "ru", pattern: /\p{Script=Cyrillic}/gu },
+      { language: "ar", pattern: /\p{Script=Arabic}/gu },
+      { language: "he", pattern: /\p{Script=Hebrew}/gu },
+      { language: "el", pattern: /\p{Script=Greek}/gu },
+      { language: "th", pattern: /\p{Script=Thai}/gu },
+      { language: "hi", pattern: /\p{Script=Devanagari}/gu },
+    ]
+  }
+
+  /**
+   * Identify the language of a text. A language code supplied by the API
+   * takes precedence unless it marks the tweet as undetermined.
+   */
+  detect(text: string, apiLanguage?: string): LanguageResult {
+    const hinted = this.normalizeApiCode(apiLanguage)
+    if (hinted) {
+      return { language: hinted, confidence: 0.95 }
+    }
+
+    const cleaned = text
+      .replace(/https?:\/\/\S+/g, " ")
+      .replace(/[@#$]\w+/g, " ")
+      .replace(/[\p{N}_]+/gu, " ")
+
+    const letters = cleaned.match(/\p{L}/gu) || []
+    if (letters.length < this.minLetters) {
+      return { language: "und", confidence: 0 }
+    }
+
+    const byScript = this.detectScript(cleaned, letters.length)
+    if (byScript) return byScript
+
+    return this.detectLatin(cleaned)
+  }
+
+  /**
+   * Languages the identifier can return besides "und"
+   */
+  getSupportedLanguages(): string[] {
+    return [...this.profiles.keys(), ...this.scripts.map((script) => script.language), "uk"]
+  }
+
+  private normalizeApiCode(code?: string): string | null {
+    if (!code) return null
+    const lower = code.toLowerCase()
+    if (UNDETERMINED_API_CODES.has(lower)) return null
+    return API_CODE_ALIASES[lower] || lower
+  }
+
+  /**
+   * Identify text dominated by a non-Latin script
+   */
+  private detectScript(text: string, letterCount: number): LanguageResult | null {
+    for (const { language, pattern } of this.scripts) {
+      const count = (text.match(pattern) || []).length
+      const share = count / letterCount
+
+      // Kana is mixed with Han, so a small share already means Japanese
+      const minShare = language === "ja" ? 0.1 : 0.5
+      if (share < minShare) continue
+
+      if (language === "ru" && /[іїєґІЇЄҐ]/.test(text)) {
+        return { language: "uk", confidence: Math.min(share, 0.9) }
+      }
+
+      return { language, confidence: Math.min(language === "ja" ? share * 3 : share, 1) }
+    }
+
+    return null
+  }
+
+  /**
+   * Rank Latin-script languages by n-gram likelihood (naive Bayes with add-one smoothing)
+   */
+  private detectLatin(text: string): LanguageResult {
+    const grams = this.extractNgrams(text)
+    if (grams.length === 0) {
+      return { language: "und", confidence: 0 }
+    }
+
+    const scores: Array<{ language: string; logLikelihood: number }> = []
+
+    for (const [language, profile] of this.profiles) {
+      let logLikelihood = 0
+      for (const gram of grams) {
+        logLikelihood += Math.log(((profile.counts.get(gram) ?? 0) + 1) / (profile.total + this.vocabularySize))
+      }
+      scores.push({ language, logLikelihood: logLikelihood / grams.length })
+    }
+
+    scores.sort((a, b) => b.logLikelihood - a.logLikelihood)
+
+    // Posterior over languages; per-gram averaging keeps long texts from
+    // becoming overconfident, the sharpness scales back up with evidence
+    const sharpness = Math.min(grams.length, 60)
+    const best = scores[0]
+    const normalizer = scores.reduce((sum, score) => sum + Math.exp((score.logLikelihood - best.logLikelihood) * sharpness), 0)
+
+    return { language: best.language, confidence: 1 / normalizer }
+  }
+
+  /**
+   * Character 1..maxNgram grams of each word, padded with word boundaries
+   */
+  private extractNgrams(text: string): string[] {
+    const grams: string[] = []
+    const words = text
+      .toLowerCase()
+      .split(/[^\p{L}']+/u)
+      .filter((word) => word.length > 0)
+
+    for (const word of words) {
+      const padded = ` ${word} `
+      for (let n = 1; n <= this.maxNgram; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          const gram = padded.slice(i, i + n)
+          if (gram.trim().length === 0) continue
+          grams.push(gram)
+        }
+      }
+    }
+
+    return grams
+  }
+
+  private buildProfile(corpus: string): Profile {
+    const counts = new Map<string, number>()
+    const grams = this.extractNgrams(corpus)
+
+    for (const gram of grams) {
+      counts.set(gram, (counts.get(gram) ?? 0) + 1)
+    }
+
+    return { counts, total: grams.length }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Seed corpora for the character n-gram language identifier
+ * Profiles are built from these texts at startup; no network access needed.
+ * Languages written in their own script are detected by script instead.
+ */
+
+export const languageSeedCorpora: { [language: string]: string } = {
+  en: `The market is looking really strong today and everyone on the timeline is talking about the next big move.
+I think this is the best time to buy before the price goes up again, but nobody knows what will happen tomorrow.
+They said the team would ship the update this week, and the community is waiting for the announcement.
+What do you think about this project? It has been going down for days, so maybe it is time to sell and take profits.
+We are still early, the chart is bullish and the volume keeps growing while people keep asking when it will moon.
+This is not financial advice, please do your own research before you put your money into anything you find here.
+If you have been holding since the start, you know how hard it was to watch the price drop without selling.`,
+
+  tr: `Bugün piyasa gerçekten çok güçlü görünüyor ve herkes bir sonraki büyük hareketten bahsediyor.
+Bence fiyat tekrar yükselmeden önce almak için en iyi zaman bu, ama yarın ne olacağını kimse bilmiyor.
+Ekip güncellemeyi bu hafta yayınlayacağını söyledi ve topluluk duyuruyu bekliyor.
+Bu proje hakkında ne düşünüyorsunuz? Günlerdir düşüyor, belki satıp kâr almanın zamanı gelmiştir.
+Hâlâ erkenciyiz, grafik yükseliş gösteriyor ve hacim artmaya devam ediyor, insanlar ne zaman uçacağını soruyor.
+Bu bir yatırım tavsiyesi değildir, lütfen paranızı yatırmadan önce kendi araştırmanızı yapın.
+Başından beri tutuyorsanız, fiyatın düşüşünü satmadan izlemenin ne kadar zor olduğunu bilirsiniz.`,
+
+  es: `El mercado se ve muy fuerte hoy y todo el mundo en la red está hablando del próximo gran movimiento.
+Creo que este es el mejor momento para comprar antes de que el precio vuelva a subir, pero nadie sabe qué pasará mañana.
+Dijeron que el equipo lanzaría la actualización esta semana y la comunidad está esperando el anuncio.
+¿Qué piensan de este proyecto? Lleva días bajando, así que tal vez sea hora de vender y tomar ganancias.
+Todavía estamos temprano, el gráfico es alcista y el volumen sigue creciendo mientras la gente pregunta cuándo va a la luna.
+Esto no es un consejo financiero, por favor hagan su propia investigación antes de poner su dinero en cualquier cosa.
+Si lo has mantenido desde el principio, sabes lo difícil que fue ver caer el precio sin vender.`,
+
+  pt: `O mercado parece muito forte hoje e todo mundo na rede está falando do próximo grande movimento.
+Acho que este é o melhor momento para comprar antes que o preço suba de novo, mas ninguém sabe o que vai acontecer amanhã.
+Eles disseram que a equipe lançaria a atualização nesta semana e a comunidade está esperando o anúncio.
+O que vocês acham deste projeto? Está caindo há dias, então talvez seja hora de vender e realizar lucros.
+Ainda estamos no começo, o gráfico está em alta e o volume continua crescendo enquanto as pessoas perguntam quando vai para a lua.
+Isso não é conselho financeiro, por favor façam sua própria pesquisa antes de colocar seu dinheiro em qualquer coisa.
+Se você está segurando desde o início, sabe como foi difícil ver o preço cair sem vender nada.`,
+
+  fr: `Le marché semble vraiment solide aujourd'hui et tout le monde sur le réseau parle du prochain grand mouvement.
+Je pense que c'est le meilleur moment pour acheter avant que le prix remonte, mais personne ne sait ce qui arrivera demain.
+Ils ont dit que l'équipe publierait la mise à jour cette semaine et la communauté attend l'annonce.
+Que pensez-vous de ce projet ? Il baisse depuis des jours, alors il est peut-être temps de vendre et de prendre des bénéfices.
+Nous sommes encore en avance, le graphique est haussier et le volume continue de croître pendant que les gens demandent quand ça va décoller.
+Ceci n'est pas un conseil financier, faites vos propres recherches avant de mettre votre argent dans quoi que ce soit.
+Si vous gardez depuis le début, vous savez à quel point il était difficile de voir le prix chuter sans vendre.`,
+
+  de: `Der Markt sieht heute wirklich stark aus und alle in der Zeitleiste reden über die nächste große Bewegung.
+Ich denke, jetzt ist die beste Zeit zu kaufen, bevor der Preis wieder steigt, aber niemand weiß, was morgen passiert.
+Sie haben gesagt, dass das Team das Update diese Woche veröffentlicht, und die Gemeinschaft wartet auf die Ankündigung.
+Was haltet ihr von diesem Projekt? Es fällt schon seit Tagen, also ist es vielleicht Zeit zu verkaufen und Gewinne mitzunehmen.
+Wir sind noch früh dabei, der Chart ist bullisch und das Volumen wächst weiter, während alle fragen, wann es endlich steigt.
+Das ist keine Finanzberatung, bitte macht eure eigene Recherche, bevor ihr euer Geld irgendwo investiert.
+Wenn du seit dem Anfang hältst, weißt du, wie schwer es war, den Preis fallen zu sehen, ohne zu verkaufen.`,
+
+  it: `Il mercato sembra davvero forte oggi e tutti sulla rete parlano della prossima grande mossa.
+Penso che questo sia il momento migliore per comprare prima che il prezzo salga di nuovo, ma nessuno sa cosa succederà domani.
+Hanno detto che il team avrebbe rilasciato l'aggiornamento questa settimana e la comunità sta aspettando l'annuncio.
+Cosa ne pensate di questo progetto? Sta scendendo da giorni, quindi forse è ora di vendere e prendere i profitti.
+Siamo ancora in anticipo, il grafico è rialzista e il volume continua a crescere mentre la gente chiede quando andrà sulla luna.
+Questo non è un consiglio finanziario, per favore fate le vostre ricerche prima di mettere i vostri soldi in qualsiasi cosa.
+Se lo tieni dall'inizio, sai quanto è stato difficile vedere il prezzo scendere senza vendere.`,
+
+  id: `Pasar terlihat sangat kuat hari ini dan semua orang di linimasa sedang membicarakan pergerakan besar berikutnya.
+Saya pikir ini adalah waktu terbaik untuk membeli sebelum harga naik lagi, tetapi tidak ada yang tahu apa yang akan terjadi besok.
+Mereka bilang tim akan merilis pembaruan minggu ini dan komunitas sedang menunggu pengumumannya.
+Bagaimana pendapat kalian tentang proyek ini? Harganya sudah turun berhari-hari, jadi mungkin sudah waktunya menjual dan ambil untung.
+Kita masih awal, grafiknya naik dan volumenya terus bertambah sementara orang-orang bertanya kapan akan terbang ke bulan.
+Ini bukan nasihat keuangan, silakan lakukan riset sendiri sebelum menaruh uang kalian di mana pun.
+Kalau kamu sudah menahan sejak awal, kamu tahu betapa sulitnya melihat harga jatuh tanpa menjual.`,
+}
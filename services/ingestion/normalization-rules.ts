@@ -0,0 +1,240 @@
+/**
+ * Data for the text normalization stage
+ * Each rule's examples double as its test cases; running text-normalizer.ts
+ * directly checks them.
+ */
+
+export type NormalizationRule = "hashtags" | "emoji" | "leetspeak" | "elongation" | "slang"
+
+export interface NormalizationExample {
+  input: string
+  expected: string // output of the rule on its own, whitespace collapsed
+}
+
+// Emoji and emoji sequences, keyed without variation selectors and skin tones.
+// Names are single tokens so the lexicon can score them.
+export const emojiNames: { [emoji: string]: string } = {
+  // Bullish
+  "🚀": "rocket",
+  "📈": "chart_up",
+  "💎": "diamond",
+  "🙌": "hands",
+  "🔥": "fire",
+  "💰": "money",
+  "🤑": "money_face",
+  "💸": "money_wings",
+  "🌙": "moon",
+  "🌕": "moon",
+  "🌝": "moon",
+  "🐂": "bull",
+  "🟢": "green_circle",
+  "💚": "green_heart",
+  "⬆": "up",
+  "🆙": "up",
+  "🥳": "party",
+  "🎉": "party",
+  "💪": "strong",
+  "👑": "crown",
+  "💯": "hundred",
+  "🦍": "ape",
+  "🐸": "pepe",
+  "✅": "check",
+  "❤‍🔥": "fire",
+
+  // Bearish / FUD
+  "📉": "chart_down",
+  "🐻": "bear",
+  "⚠": "warning",
+  "🚨": "siren",
+  "❌": "cross",
+  "🤡": "clown",
+  "💀": "skull",
+  "☠": "skull",
+  "🪦": "tombstone",
+  "🩸": "blood",
+  "🧻": "paper_hands",
+  "🔴": "red_circle",
+  "⬇": "down",
+  "😭": "crying",
+  "😢": "crying",
+  "😱": "scream",
+  "🤮": "vomit",
+  "💩": "poop",
+  "🥶": "cold",
+  "🫠": "melting",
+  "😵‍💫": "dizzy",
+  "🏃‍♂": "running",
+  "🏃": "running",
+
+  // Neutral but relevant
+  "🐋": "whale",
+  "🐳": "whale",
+  "🐟": "fish",
+  "👀": "eyes",
+  "🤔": "thinking",
+  "😂": "laughing",
+  "🤣": "laughing",
+  "🫡": "salute",
+  "🤝": "handshake",
+  "🎰": "gamble",
+  "📊": "chart",
+  "🤖": "bot",
+}
+
+// Common crypto slang and inflections, mapped to the terms the lexicon scores.
+// "nfa" and "ngl" stay as they are: spelled out, their "not" would negate
+// whatever follows ("ngl bullish" would score bearish).
+export const slangTerms: { [term: string]: string } = {
+  rugged: "rug",
+  rugging: "rug",
+  rugpull: "rug pull",
+  rugpulled: "rug pull",
+  scammer: "scam",
+  scammers: "scam",
+  scammy: "scam",
+  wrecked: "rekt",
+  pumping: "pump",
+  pumped: "pump",
+  dumping: "dump",
+  dumped: "dump",
+  mooning: "moon",
+  moonshot: "moon",
+  hodling: "hodl",
+  hodler: "hodl",
+  hodlers: "hodl",
+  btfd: "buy the dip",
+  paperhands: "paper hands",
+  diamondhands: "diamond hands",
+  bullrun: "bull run",
+  ath: "all time high",
+  gmi: "gonna make it",
+  dyor: "do your own research",
+  ded: "dead",
+  gud: "good",
+  wen: "when",
+}
+
+// Characters used in place of letters; "1" is ambiguous between i and l
+export const leetCharacters: { [char: string]: string[] } = {
+  "0": ["o"],
+  "1": ["i", "l"],
+  "3": ["e"],
+  "4": ["a"],
+  "5": ["s"],
+  "7": ["t"],
+  "@": ["a"],
+  $: ["s"],
+}
+
+// Words elongation and leetspeak may resolve to, besides the crypto keywords
+export const normalizationVocabulary: string[] = [
+  "moon",
+  "pump",
+  "dump",
+  "rekt",
+  "scam",
+  "hodl",
+  "wagmi",
+  "ngmi",
+  "lfg",
+  "gm",
+  "gn",
+  "rug",
+  "gem",
+  "fud",
+  "fomo",
+  "dip",
+  "ape",
+  "degen",
+  "alpha",
+  "whale",
+  "bullish",
+  "bearish",
+  "bull",
+  "bear",
+  "shill",
+  "cope",
+  "based",
+  "send",
+  "buy",
+  "sell",
+  "rip",
+  "dead",
+  "lambo",
+  "rich",
+  "broke",
+  "huge",
+  "big",
+  "go",
+  "up",
+  "down",
+  "so",
+  "no",
+  "yes",
+  "good",
+  "bad",
+  "lol",
+  "omg",
+  "wow",
+  "too",
+  "why",
+  "soon",
+  "cool",
+  "hype",
+  "please",
+  "pls",
+  "love",
+  "hate",
+]
+
+export const normalizationExamples: { [rule in NormalizationRule]: NormalizationExample[] } = {
+  hashtags: [
+    { input: "#ToTheMoon", expected: "To The Moon" },
+    { input: "#NFTCommunity", expected: "NFT Community" },
+    { input: "#SolanaSummer2025", expected: "Solana Summer 2025" },
+    { input: "#buy_the_dip", expected: "buy the dip" },
+    { input: "#WAGMI", expected: "WAGMI" },
+  ],
+  emoji: [
+    { input: "to the moon🚀🚀", expected: "to the moon rocket rocket" },
+    { input: "this dev 🤡", expected: "this dev clown" },
+    { input: "💀💀 rekt", expected: "skull skull rekt" },
+    { input: "chart is 🩸", expected: "chart is blood" },
+    { input: "🐋 alert", expected: "whale alert" },
+    { input: "⚠️ warning", expected: "warning warning" },
+    { input: "💪🏽 holding", expected: "strong holding" },
+    { input: "❤️‍🔥", expected: "fire" },
+    { input: "🏃🏻‍♂️ exit", expected: "running exit" },
+    { input: "🇺🇸 pump", expected: "pump" },
+    { input: "©", expected: "" },
+  ],
+  leetspeak: [
+    { input: "m00n soon", expected: "moon soon" },
+    { input: "r3kt", expected: "rekt" },
+    { input: "sc4m alert", expected: "scam alert" },
+    { input: "w4gm1", expected: "wagmi" },
+    { input: "h0dl", expected: "hodl" },
+    { input: "100x", expected: "100x" },
+    { input: "$MOOD", expected: "$MOOD" },
+    { input: "4am", expected: "4am" },
+  ],
+  elongation: [
+    { input: "moooooon", expected: "moon" },
+    { input: "pumpppp", expected: "pump" },
+    { input: "LFGGGGG", expected: "LFG" },
+    { input: "sooooo good", expected: "so good" },
+    { input: "noooo", expected: "no" },
+    { input: "moon", expected: "moon" },
+    { input: "coffee", expected: "coffee" },
+  ],
+  slang: [
+    { input: "got rugged", expected: "got rug" },
+    { input: "Rugpull confirmed", expected: "rug pull confirmed" },
+    { input: "btfd", expected: "buy the dip" },
+    { input: "wen lambo", expected: "when lambo" },
+    { input: "hodling strong", expected: "hodl strong" },
+    { input: "rug", expected: "rug" },
+    { input: "ngl bullish", expected: "ngl bullish" },
+    { input: "nfa moon soon", expected: "nfa moon soon" },
+  ],
+}
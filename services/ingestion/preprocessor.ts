@@ -2,13 +2,24 @@
  * Tweet preprocessing and language detection
  */
 
-import type { Tweet } from "@/lib/types"
+import type { AuthorProfile, BotScore, TokenMention, Tweet } from "@/lib/types"
+import { BotClassifier } from "./bot-classifier"
+import { LanguageDetector, type LanguageResult } from "./language-detector"
+import { TextNormalizer } from "./text-normalizer"
+import { EntityExtractor } from "./entity-extractor"
 
 export class TweetPreprocessor {
   private cryptoKeywords: Set<string>
-  private emojiPattern: RegExp
+  private normalizer: TextNormalizer
+  private botClassifier: BotClassifier
+  private languageDetector: LanguageDetector
+  private entityExtractor: EntityExtractor
 
   constructor() {
+    this.botClassifier = new BotClassifier()
+    this.languageDetector = new LanguageDetector()
+    this.entityExtractor = new EntityExtractor()
+
     this.cryptoKeywords = new Set([
       "pump",
       "dump",
@@ -38,9 +49,8 @@ export class TweetPreprocessor {
       "shill",
     ])
 
-    // Emoji pattern for normalization
-    this.emojiPattern =
-      /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu
+    // Elongated and leetspeak words resolve to crypto keywords too
+    this.normalizer = new TextNormalizer(this.cryptoKeywords)
   }
 
   /**
@@ -55,30 +65,15 @@ export class TweetPreprocessor {
     // Normalize mentions
     cleaned = cleaned.replace(/@\w+/g, "@USER")
 
-    // Normalize hashtags (keep the word, remove #)
-    cleaned = cleaned.replace(/#(\w+)/g, "$1")
-
-    // Normalize emojis (replace with text representation)
-    cleaned = this.normalizeEmojis(cleaned)
-
-    // Remove extra whitespace
-    cleaned = cleaned.replace(/\s+/g, " ").trim()
-
-    return cleaned
+    // Split hashtags, name emoji, undo leetspeak and elongation, map slang
+    return this.normalizer.normalize(cleaned)
   }
 
   /**
-   * Detect language (simple heuristic, can be replaced with fastText)
+   * Detect language, preferring the code reported by the source
    */
-  detectLanguage(text: string): string {
-    // Simple heuristic: check for Turkish characters
-    const turkishChars = /[çğıöşüÇĞİÖŞÜ]/
-    if (turkishChars.test(text)) {
-      return "tr"
-    }
-
-    // Default to English
-    return "en"
+  detectLanguage(text: string, sourceLanguage?: string): LanguageResult {
+    return this.languageDetector.detect(text, sourceLanguage)
   }
 
   /**
@@ -105,87 +100,122 @@ export class TweetPreprocessor {
     }
   }
 
+  /**
+   * Tokens mentioned by cashtag, mint address, link, handle or name.
+   * Needs the raw tweet: cleaning strips links and handles.
+   */
+  extractTokens(tweet: Tweet): TokenMention[] {
+    return this.entityExtractor.extract(tweet)
+  }
+
   /**
    * Tokenize text for model input
    */
   tokenize(text: string): string[] {
-    // Simple whitespace tokenization
+    // Normalized word tokens
     // In production, use SentencePiece or HuggingFace tokenizers
-    return text
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((token) => token.length > 0)
+    return this.normalizer.tokenize(text)
   }
 
   /**
-   * Normalize emojis to text
+   * 64-bit SimHash of the cleaned text over word unigrams and bigrams.
+   * Returns 16 hex chars, or null when the text is too short to fingerprint.
    */
-  private normalizeEmojis(text: string): string {
-    const emojiMap: { [key: string]: string } = {
-      "🚀": "rocket",
-      "📈": "chart_up",
-      "📉": "chart_down",
-      "💎": "diamond",
-      "🙌": "hands",
-      "🔥": "fire",
-      "💰": "money",
-      "🌙": "moon",
-      "🐻": "bear",
-      "🐂": "bull",
-      "⚠️": "warning",
-      "❌": "cross",
-      "✅": "check",
+  fingerprint(text: string, minTokens = 1): string | null {
+    const words = text
+      .toLowerCase()
+      .replace(/@user/g, " ")
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 0)
+
+    if (words.length < minTokens) return null
+
+    const features = [...words]
+    for (let i = 1; i < words.length; i++) {
+      features.push(`${words[i - 1]} ${words[i]}`)
     }
 
-    return text.replace(this.emojiPattern, (emoji) => {
-      return emojiMap[emoji] || ""
-    })
+    const votes = new Array<number>(64).fill(0)
+    for (const feature of features) {
+      const high = this.hash32(feature, 0x9e3779b9)
+      const low = this.hash32(feature, 0)
+      for (let bit = 0; bit < 32; bit++) {
+        votes[bit] += (low >>> bit) & 1 ? 1 : -1
+        votes[bit + 32] += (high >>> bit) & 1 ? 1 : -1
+      }
+    }
+
+    let high = 0
+    let low = 0
+    for (let bit = 0; bit < 32; bit++) {
+      if (votes[bit] > 0) low |= 1 << bit
+      if (votes[bit + 32] > 0) high |= 1 << bit
+    }
+
+    return this.toHex(high) + this.toHex(low)
   }
 
   /**
-   * Detect potential bot accounts
+   * FNV-1a 32-bit hash with a seed
    */
-  detectBot(tweet: Tweet): boolean {
-    // Simple heuristics for bot detection
-    const text = tweet.text.toLowerCase()
-
-    // Check for excessive hashtags
-    const hashtagCount = tweet.entities?.hashtags?.length || 0
-    if (hashtagCount > 5) return true
-
-    // Check for spam patterns
-    const spamPatterns = [/follow.*back/i, /dm.*for/i, /check.*bio/i, /link.*in.*bio/i, /giveaway/i]
-
-    for (const pattern of spamPatterns) {
-      if (pattern.test(text)) return true
+  private hash32(value: string, seed: number): number {
+    let hash = (0x811c9dc5 ^ seed) >>> 0
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193) >>> 0
     }
+    return hash
+  }
 
-    // Check for excessive caps
-    const capsRatio = (text.match(/[A-Z]/g) || []).length / text.length
-    if (capsRatio > 0.5 && text.length > 20) return true
+  private toHex(value: number): string {
+    return (value >>> 0).toString(16).padStart(8, "0")
+  }
 
-    return false
+  /**
+   * Score the likelihood that a tweet comes from a bot account
+   */
+  scoreBot(tweet: Tweet, author?: AuthorProfile | null): BotScore {
+    return this.botClassifier.score(tweet, author)
   }
 
   /**
-   * Calculate author weight based on metrics
+   * Calculate author weight based on metrics and the stored author profile
    */
-  calculateAuthorWeight(tweet: Tweet, userInfo?: any): number {
+  calculateAuthorWeight(tweet: Tweet, author?: AuthorProfile | null): number {
     let weight = 1.0
 
     // Verified users get higher weight
-    if (userInfo?.verified) {
+    if (author?.verified) {
       weight *= 2.0
     }
 
     // Follower count influence (logarithmic scale)
-    const followers = userInfo?.public_metrics?.followers_count || 0
+    const followers = author?.followers || 0
     if (followers > 10000) {
       weight *= 1.5
     } else if (followers > 1000) {
       weight *= 1.2
     }
 
+    // Fresh accounts are cheap to create for campaigns
+    if (author?.accountCreatedAt) {
+      const ageDays = (Date.now() - author.accountCreatedAt.getTime()) / (24 * 60 * 60 * 1000)
+      if (ageDays < 7) {
+        weight *= 0.5
+      } else if (ageDays < 30) {
+        weight *= 0.8
+      }
+    }
+
+    // Prolific posters should not dominate the mood
+    const seenTweets = author?.seenTweets || 0
+    if (seenTweets > 50) {
+      weight *= 0.7
+    } else if (seenTweets > 10) {
+      weight *= 0.85
+    }
+
     // Engagement influence
     const engagement = tweet.metrics.likes + tweet.metrics.retweets
     if (engagement > 100) {
@@ -0,0 +1,220 @@
+/**
+ * Search query builder driven by the tracked token profile
+ * Splits the profile's terms into queries that fit X's length and operator
+ * limits, and rotates through them within the recent-search rate budget.
+ */
+
+import { config } from "@/lib/config"
+
+export interface TokenProfile {
+  symbol: string
+  aliases: readonly string[]
+  mintAddress: string
+  handles: readonly string[]
+  exclusions: readonly string[]
+}
+
+export interface QueryBuilderOptions {
+  maxLength: number
+  maxOperators: number
+  languages: readonly string[]
+  includeReplies: boolean
+}
+
+export class SearchQueryBuilder {
+  private profile: TokenProfile
+  private options: QueryBuilderOptions
+  private queries: string[]
+  private nextIndex = 0
+
+  constructor(profile: TokenProfile = config.token, options: Partial<QueryBuilderOptions> = {}) {
+    this.profile = profile
+    this.options = {
+      maxLength: config.twitter.search.maxQueryLength,
+      maxOperators: config.twitter.search.maxOperatorsPerQuery,
+      languages: config.ingestion.allowedLanguages,
+      includeReplies: config.ingestion.includeReplies,
+      ...options,
+    }
+    this.queries = this.build()
+  }
+
+  /**
+   * All queries covering the token profile
+   */
+  getQueries(): string[] {
+    return [...this.queries]
+  }
+
+  /**
+   * Next query in the rotation
+   */
+  next(): string {
+    const query = this.queries[this.nextIndex % this.queries.length]
+    this.nextIndex = (this.nextIndex + 1) % this.queries.length
+    return query
+  }
+
+  /**
+   * Delay between polls so each query is still polled about every
+   * `cycleMs`, without exceeding the recent-search request budget
+   */
+  getPollIntervalMs(
+    pagesPerQuery: number = config.twitter.search.maxPagesPerPoll,
+    cycleMs: number = config.ingestion.pollIntervalMs,
+  ): number {
+    const { limit, windowMs } = config.twitter.rateLimits.search
+    const budgetIntervalMs = (windowMs / limit) * pagesPerQuery
+    return Math.max(cycleMs / this.queries.length, budgetIntervalMs)
+  }
+
+  /**
+   * Validate a query against X's syntax and limits; returns the problems found
+   */
+  validate(query: string): string[] {
+    const errors: string[] = []
+
+    if (query.length > this.options.maxLength) {
+      errors.push(`query is ${query.length} characters, limit is ${this.options.maxLength}`)
+    }
+
+    const operators = this.countOperators(query)
+    if (operators > this.options.maxOperators) {
+      errors.push(`query has ${operators} operators, limit is ${this.options.maxOperators}`)
+    }
+
+    let depth = 0
+    for (const char of query.replace(/"[^"]*"/g, "")) {
+      if (char === "(") depth++
+      if (char === ")") depth--
+      if (depth < 0) break
+    }
+    if (depth !== 0) {
+      errors.push("unbalanced parentheses")
+    }
+
+    if ((query.match(/"/g) || []).length % 2 !== 0) {
+      errors.push("unbalanced quotes")
+    }
+
+    if (/\(\s*\)/.test(query)) {
+      errors.push("empty group")
+    }
+
+    // X treats lowercase "or" as a keyword, not an operator
+    if (/\sor\s/.test(query.replace(/"[^"]*"/g, ""))) {
+      errors.push('lowercase "or" is matched as a keyword')
+    }
+
+    const positive = query
+      .replace(/"[^"]*"/g, "TERM")
+      .split(/\s+/)
+      .filter((token) => token && !token.startsWith("-") && !/^\(?(is|lang|has):/.test(token) && token !== "OR")
+    if (positive.length === 0) {
+      errors.push("query has no positive terms")
+    }
+
+    return errors
+  }
+
+  /**
+   * Pack the profile's terms into as few valid queries as possible
+   */
+  private build(): string[] {
+    const terms = this.getTerms()
+    if (terms.length === 0) {
+      throw new Error("Token profile has no search terms")
+    }
+
+    const suffix = this.getSuffix()
+    const queries: string[] = []
+    let group: string[] = []
+
+    for (const term of terms) {
+      const candidate = this.compose([...group, term], suffix)
+
+      if (group.length > 0 && this.validate(candidate).length > 0) {
+        queries.push(this.compose(group, suffix))
+        group = [term]
+      } else {
+        group.push(term)
+      }
+    }
+
+    if (group.length > 0) {
+      queries.push(this.compose(group, suffix))
+    }
+
+    for (const query of queries) {
+      const errors = this.validate(query)
+      if (errors.length > 0) {
+        throw new Error(`Invalid search query "${query}": ${errors.join(", ")}`)
+      }
+    }
+
+    return queries
+  }
+
+  private getTerms(): string[] {
+    const terms: string[] = []
+    const { symbol, aliases, mintAddress, handles } = this.profile
+
+    if (symbol) {
+      terms.push(`$${symbol.replace(/^\$/, "")}`)
+    }
+
+    for (const alias of aliases) {
+      terms.push(this.quote(alias))
+    }
+
+    if (mintAddress) {
+      terms.push(mintAddress)
+    }
+
+    // Mentions only: the official accounts' own posts are announcements, not mood
+    for (const handle of handles) {
+      terms.push(`@${handle.replace(/^@/, "")}`)
+    }
+
+    return Array.from(new Set(terms))
+  }
+
+  /**
+   * Exclusions and filters shared by every query
+   */
+  private getSuffix(): string {
+    const parts = this.profile.exclusions.map((term) => `-${this.quote(term)}`)
+    parts.push("-is:retweet")
+
+    if (!this.options.includeReplies) {
+      parts.push("-is:reply")
+    }
+
+    // X marks undetermined tweets with several codes (und, qme, zxx, ...), so when
+    // they are admitted the language is left to the intake's own detection
+    const languages = this.options.languages.includes("und") ? [] : this.options.languages
+    if (languages.length === 1) {
+      parts.push(`lang:${languages[0]}`)
+    } else if (languages.length > 1) {
+      // Grouped, otherwise OR binds to the neighbouring clauses
+      parts.push(`(${languages.map((code) => `lang:${code}`).join(" OR ")})`)
+    }
+
+    return parts.join(" ")
+  }
+
+  private compose(terms: string[], suffix: string): string {
+    const group = terms.length === 1 ? terms[0] : `(${terms.join(" OR ")})`
+    return `${group} ${suffix}`.trim()
+  }
+
+  private quote(term: string): string {
+    const cleaned = term.replace(/"/g, "")
+    return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned
+  }
+
+  private countOperators(query: string): number {
+    const unquoted = query.replace(/"[^"]*"/g, "PHRASE")
+    return unquoted.split(/\s+/).filter((token) => token.length > 0 && token !== "OR").length
+  }
+}
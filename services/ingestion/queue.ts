@@ -1,14 +1,43 @@
 /**
  * Message queue for tweet processing pipeline
+ * At-least-once delivery: dequeued tweets sit in a processing list until they
+ * are acked, and are retried or dead-lettered when nacked or left unacked.
  */
 
 import Redis from "ioredis"
+import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
 import type { Tweet } from "@/lib/types"
 
+export interface QueueMessage {
+  tweet: Tweet
+  attempts: number // deliveries that already failed
+  receipt: string // raw entry in the processing list, used to ack/nack
+}
+
+export interface DeadLetter {
+  tweet: Tweet
+  attempts: number
+  enqueuedAt: number
+  failedAt?: number
+  lastError?: string
+}
+
+interface QueueEnvelope {
+  tweet: Tweet
+  attempts: number
+  enqueuedAt: number
+  failedAt?: number
+  lastError?: string
+}
+
 export class TweetQueue {
   private redis: Redis
+  private blocking: Redis // dedicated to BLMOVE so acks and the reaper never wait behind it
   private readonly queueKey = "tweets:pending"
+  private readonly processingKey = "tweets:processing"
+  private readonly inflightKey = "tweets:inflight"
+  private readonly deadLetterKey = "tweets:dead"
   private readonly processedKey = "tweets:processed"
 
   constructor(redisUrl?: string) {
@@ -27,6 +56,11 @@ export class TweetQueue {
     this.redis.on("connect", () => {
       logger.info("Connected to Redis")
     })
+
+    this.blocking = this.redis.duplicate()
+    this.blocking.on("error", (error) => {
+      logger.error("Redis blocking connection error", { error: error.message })
+    })
   }
 
   /**
@@ -43,7 +77,8 @@ export class TweetQueue {
       }
 
       // Add to queue
-      await this.redis.lpush(this.queueKey, JSON.stringify(tweet))
+      const envelope: QueueEnvelope = { tweet, attempts: 0, enqueuedAt: Date.now() }
+      await this.redis.lpush(this.queueKey, JSON.stringify(envelope))
 
       logger.debug("Tweet enqueued", { tweetId: tweet.id })
     } catch (error: any) {
@@ -56,30 +91,176 @@ export class TweetQueue {
   }
 
   /**
-   * Get next tweet from queue
+   * Get next tweet from queue. The tweet stays in the processing list until
+   * ack() or nack() is called or its visibility timeout expires.
    */
-  async dequeue(): Promise<Tweet | null> {
+  async dequeue(): Promise<QueueMessage | null> {
     try {
-      const result = await this.redis.brpop(this.queueKey, 5)
+      const receipt = await this.blocking.blmove(this.queueKey, this.processingKey, "RIGHT", "LEFT", 5)
 
-      if (!result) return null
+      if (!receipt) return null
 
-      const [, tweetJson] = result
-      const tweet = JSON.parse(tweetJson) as Tweet
+      return await this.receive(receipt)
+    } catch (error: any) {
+      logger.error("Failed to dequeue tweet", { error: error.message })
+      return null
+    }
+  }
 
-      // Mark as processed
-      await this.redis.sadd(this.processedKey, tweet.id)
+  /**
+   * Get up to `max` tweets: waits for the first like dequeue(), then at most
+   * `maxWaitMs` for the rest. Each tweet is acked or nacked on its own.
+   */
+  async dequeueMany(max: number, maxWaitMs: number): Promise<QueueMessage[]> {
+    const messages: QueueMessage[] = []
+    let deadline = 0
 
-      // Expire processed set after 7 days
-      await this.redis.expire(this.processedKey, 7 * 24 * 60 * 60)
+    try {
+      while (messages.length < max) {
+        const remainingMs = deadline - Date.now()
+        if (deadline > 0 && remainingMs <= 0) break
+
+        const receipt = await this.blocking.blmove(
+          this.queueKey,
+          this.processingKey,
+          "RIGHT",
+          "LEFT",
+          deadline > 0 ? remainingMs / 1000 : 5,
+        )
+        if (!receipt) break
 
-      return tweet
+        if (deadline === 0) deadline = Date.now() + maxWaitMs
+
+        const message = await this.receive(receipt)
+        if (message) messages.push(message)
+      }
     } catch (error: any) {
-      logger.error("Failed to dequeue tweet", { error: error.message })
-      return null
+      // Tweets already taken stay in the batch; the rest wait for the next call
+      logger.error("Failed to dequeue tweets", { error: error.message, dequeued: messages.length })
+    }
+
+    return messages
+  }
+
+  /**
+   * Confirm a tweet was fully processed
+   */
+  async ack(message: QueueMessage): Promise<void> {
+    try {
+      await this.redis
+        .multi()
+        .lrem(this.processingKey, 1, message.receipt)
+        .zrem(this.inflightKey, message.receipt)
+        .sadd(this.processedKey, message.tweet.id)
+        .expire(this.processedKey, config.ingestion.queue.processedTtlSeconds)
+        .exec()
+    } catch (error: any) {
+      logger.error("Failed to ack tweet", { error: error.message, tweetId: message.tweet.id })
+    }
+  }
+
+  /**
+   * Return a failed tweet for retry, or dead-letter it once out of attempts
+   */
+  async nack(message: QueueMessage, reason = "unknown error"): Promise<void> {
+    try {
+      const removed = await this.redis.lrem(this.processingKey, 1, message.receipt)
+      await this.redis.zrem(this.inflightKey, message.receipt)
+
+      // Already requeued by the visibility reaper
+      if (removed === 0) return
+
+      await this.retryOrDeadLetter(message.receipt, reason)
+    } catch (error: any) {
+      logger.error("Failed to nack tweet", { error: error.message, tweetId: message.tweet.id })
+    }
+  }
+
+  /**
+   * Requeue tweets whose visibility timeout expired without an ack
+   */
+  async requeueExpired(): Promise<number> {
+    try {
+      const now = Date.now()
+      await this.trackOrphans(now)
+
+      const expired = await this.redis.zrangebyscore(this.inflightKey, 0, now)
+      let requeued = 0
+
+      for (const receipt of expired) {
+        await this.redis.zrem(this.inflightKey, receipt)
+        const removed = await this.redis.lrem(this.processingKey, 1, receipt)
+
+        // Acked or nacked in the meantime
+        if (removed === 0) continue
+
+        await this.retryOrDeadLetter(receipt, "visibility timeout expired")
+        requeued++
+      }
+
+      if (requeued > 0) {
+        logger.warn("Requeued unacknowledged tweets", { count: requeued })
+      }
+
+      return requeued
+    } catch (error: any) {
+      logger.error("Failed to requeue expired tweets", { error: error.message })
+      return 0
+    }
+  }
+
+  /**
+   * Inspect dead-lettered tweets, oldest first
+   */
+  async getDeadLetters(offset = 0, limit = 50): Promise<DeadLetter[]> {
+    try {
+      // Entries are LPUSHed, so the oldest sit at the tail
+      const raw = await this.redis.lrange(this.deadLetterKey, -(offset + limit), -(offset + 1))
+      return raw.reverse().map((entry) => this.parseEnvelope(entry))
+    } catch (error: any) {
+      logger.error("Failed to read dead letters", { error: error.message })
+      return []
     }
   }
 
+  /**
+   * Get dead-letter list length
+   */
+  async getDeadLetterLength(): Promise<number> {
+    try {
+      return await this.redis.llen(this.deadLetterKey)
+    } catch (error: any) {
+      logger.error("Failed to get dead letter length", { error: error.message })
+      return 0
+    }
+  }
+
+  /**
+   * Move dead-lettered tweets back to the pending queue with a fresh retry budget
+   */
+  async redriveDeadLetters(count = Number.POSITIVE_INFINITY): Promise<number> {
+    let redriven = 0
+
+    try {
+      while (redriven < count) {
+        const raw = await this.redis.lindex(this.deadLetterKey, -1)
+        if (!raw) break
+
+        const envelope = this.parseEnvelope(raw)
+        const fresh: QueueEnvelope = { tweet: envelope.tweet, attempts: 0, enqueuedAt: Date.now() }
+
+        await this.redis.multi().lrem(this.deadLetterKey, -1, raw).lpush(this.queueKey, JSON.stringify(fresh)).exec()
+        redriven++
+      }
+
+      logger.info("Dead letters redriven", { count: redriven })
+    } catch (error: any) {
+      logger.error("Failed to redrive dead letters", { error: error.message, redriven })
+    }
+
+    return redriven
+  }
+
   /**
    * Get queue length
    */
@@ -98,6 +279,9 @@ export class TweetQueue {
   async clear(): Promise<void> {
     try {
       await this.redis.del(this.queueKey)
+      await this.redis.del(this.processingKey)
+      await this.redis.del(this.inflightKey)
+      await this.redis.del(this.deadLetterKey)
       await this.redis.del(this.processedKey)
       logger.info("Queue cleared")
     } catch (error: any) {
@@ -106,9 +290,86 @@ export class TweetQueue {
   }
 
   /**
-   * Close Redis connection
+   * Close Redis connections
    */
   async close(): Promise<void> {
-    await this.redis.quit()
+    await Promise.all([this.redis.quit(), this.blocking.quit()])
+  }
+
+  /**
+   * Start the visibility timeout of a moved entry; null when the tweet was
+   * already processed
+   */
+  private async receive(receipt: string): Promise<QueueMessage | null> {
+    const deadline = Date.now() + config.ingestion.queue.visibilityTimeoutMs
+    await this.redis.zadd(this.inflightKey, deadline, receipt)
+
+    const envelope = this.parseEnvelope(receipt)
+    const message: QueueMessage = { tweet: envelope.tweet, attempts: envelope.attempts, receipt }
+
+    // A redelivered tweet may have been acked by an earlier, slow delivery
+    const isProcessed = await this.redis.sismember(this.processedKey, envelope.tweet.id)
+    if (isProcessed) {
+      logger.debug("Dropping redelivered tweet that was already processed", { tweetId: envelope.tweet.id })
+      await this.ack(message)
+      return null
+    }
+
+    return message
+  }
+
+  /**
+   * Count a failed delivery and either requeue or dead-letter the tweet
+   */
+  private async retryOrDeadLetter(receipt: string, reason: string): Promise<void> {
+    const envelope = this.parseEnvelope(receipt)
+    const next: QueueEnvelope = {
+      ...envelope,
+      attempts: envelope.attempts + 1,
+      failedAt: Date.now(),
+      lastError: reason,
+    }
+
+    if (next.attempts >= config.ingestion.queue.maxAttempts) {
+      await this.redis.lpush(this.deadLetterKey, JSON.stringify(next))
+      logger.warn("Tweet dead-lettered", {
+        tweetId: next.tweet.id,
+        attempts: next.attempts,
+        reason,
+      })
+      return
+    }
+
+    // Back of the queue, so a poison tweet cannot block the ones behind it
+    await this.redis.lpush(this.queueKey, JSON.stringify(next))
+    logger.debug("Tweet requeued for retry", { tweetId: next.tweet.id, attempts: next.attempts, reason })
+  }
+
+  /**
+   * Give a deadline to processing entries that lost theirs (a crash between
+   * the move and the deadline write), so the reaper eventually picks them up
+   */
+  private async trackOrphans(now: number): Promise<void> {
+    const processing = await this.redis.lrange(this.processingKey, 0, -1)
+
+    for (const receipt of processing) {
+      const deadline = await this.redis.zscore(this.inflightKey, receipt)
+      if (deadline === null) {
+        await this.redis.zadd(this.inflightKey, "NX", now + config.ingestion.queue.visibilityTimeoutMs, receipt)
+      }
+    }
+  }
+
+  /**
+   * Parse a queue entry; entries written before envelopes were introduced are bare tweets
+   */
+  private parseEnvelope(raw: string): QueueEnvelope {
+    const parsed = JSON.parse(raw)
+
+    if (parsed && typeof parsed === "object" && "tweet" in parsed) {
+      return parsed as QueueEnvelope
+    }
+
+    return { tweet: parsed as Tweet, attempts: 0, enqueuedAt: Date.now() }
   }
 }
@@ -0,0 +1,37 @@
+/**
+ * Common interface for social data sources feeding the ingestion pipeline
+ */
+
+import type { Tweet } from "@/lib/types"
+
+export type TweetHandler = (tweet: Tweet) => Promise<void>
+
+export interface SocialSource {
+  /** Origin tag written to Tweet.source */
+  readonly name: string
+
+  /**
+   * Fetch whatever is new since the previous call (poll mode)
+   */
+  fetchBatch(): Promise<Tweet[]>
+
+  /**
+   * Delay between fetchBatch() calls, when the source has its own pacing
+   */
+  getPollIntervalMs?(): number
+
+  /**
+   * True once a finite source (e.g. a replay file) has nothing left to fetch
+   */
+  isExhausted?(): boolean
+
+  /**
+   * Push tweets to the handler as they arrive until stop() is called (stream mode)
+   */
+  stream(onTweet: TweetHandler): Promise<void>
+
+  /**
+   * Stop an active stream
+   */
+  stop(): void
+}
@@ -0,0 +1,15 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { TextNormalizer } from "./text-normalizer"
+import { normalizationExamples, type NormalizationRule } from "./normalization-rules"
+
+const failures = new TextNormalizer().verify()
+
+for (const rule of Object.keys(normalizationExamples) as NormalizationRule[]) {
+  test(`${rule} rule matches its examples`, () => {
+    assert.deepEqual(
+      failures.filter((failure) => failure.rule === rule),
+      [],
+    )
+  })
+}
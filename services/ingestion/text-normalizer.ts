@@ -0,0 +1,177 @@
+/**
+ * Data-driven text normalization
+ * Splits camelCase hashtags, names emoji (including ZWJ sequences and skin
+ * tones), undoes leetspeak and elongation, and maps slang to lexicon terms.
+ */
+
+import {
+  emojiNames,
+  leetCharacters,
+  normalizationExamples,
+  normalizationVocabulary,
+  slangTerms,
+  type NormalizationRule,
+} from "./normalization-rules"
+
+export interface NormalizationFailure {
+  rule: NormalizationRule
+  input: string
+  expected: string
+  actual: string
+}
+
+// Variation selector-16 and the five skin tone modifiers
+const EMOJI_MODIFIERS = /[\u{FE0F}\u{1F3FB}-\u{1F3FF}]/gu
+
+export class TextNormalizer {
+  private vocabulary: Set<string>
+  private emojiPattern: RegExp
+  private wordPattern: RegExp
+  private readonly rules: NormalizationRule[] = ["hashtags", "emoji", "leetspeak", "elongation", "slang"]
+
+  constructor(extraVocabulary: Iterable<string> = []) {
+    this.vocabulary = new Set([...normalizationVocabulary, ...extraVocabulary].map((word) => word.toLowerCase()))
+
+    // Flags, keycaps, then pictographs with their modifiers and ZWJ continuations
+    this.emojiPattern =
+      /\p{Regional_Indicator}{2}|[0-9#*]\u{FE0F}?\u{20E3}|\p{Extended_Pictographic}[\u{FE0F}\u{1F3FB}-\u{1F3FF}]*(?:\u{200D}\p{Extended_Pictographic}[\u{FE0F}\u{1F3FB}-\u{1F3FF}]*)*|[\u{FE0F}\u{1F3FB}-\u{1F3FF}]/gu
+
+    // Words, including leet characters inside them
+    this.wordPattern = /[\p{L}\p{N}@$]+/gu
+  }
+
+  /**
+   * Apply every rule in order
+   */
+  normalize(text: string): string {
+    let normalized = text
+    for (const rule of this.rules) {
+      normalized = this.applyRule(rule, normalized)
+    }
+    return normalized
+  }
+
+  /**
+   * Lowercase tokens of the normalized text, in the form the lexicon matches
+   */
+  tokenize(text: string): string[] {
+    return this.normalize(text).toLowerCase().match(/[\p{L}\p{N}_$']+/gu) || []
+  }
+
+  /**
+   * Apply a single rule; whitespace is collapsed afterwards
+   */
+  applyRule(rule: NormalizationRule, text: string): string {
+    let result: string
+
+    switch (rule) {
+      case "hashtags":
+        result = text.replace(/#([\p{L}\p{N}_]+)/gu, (_, tag: string) => this.splitHashtag(tag))
+        break
+      case "emoji":
+        result = text.replace(this.emojiPattern, (emoji) => ` ${this.nameEmoji(emoji)} `)
+        break
+      case "leetspeak":
+        result = this.replaceWords(text, (word) => this.decodeLeet(word))
+        break
+      case "elongation":
+        result = this.replaceWords(text, (word) => this.collapseElongation(word))
+        break
+      case "slang":
+        result = this.replaceWords(text, (word) => slangTerms[word.toLowerCase()] ?? word)
+        break
+    }
+
+    return result.replace(/\s+/g, " ").trim()
+  }
+
+  /**
+   * Run every rule against its examples; returns the ones that fail
+   */
+  verify(): NormalizationFailure[] {
+    const failures: NormalizationFailure[] = []
+
+    for (const rule of this.rules) {
+      for (const { input, expected } of normalizationExamples[rule]) {
+        const actual = this.applyRule(rule, input)
+        if (actual !== expected) {
+          failures.push({ rule, input, expected, actual })
+        }
+      }
+    }
+
+    return failures
+  }
+
+  /**
+   * ToTheMoon -> To The Moon, NFTCommunity -> NFT Community, to_the_moon -> to the moon
+   */
+  private splitHashtag(tag: string): string {
+    return tag
+      .replace(/_+/g, " ")
+      .replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+      .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+      .replace(/(\p{L})(\p{N})/gu, "$1 $2")
+      .replace(/(\p{N})(\p{L})/gu, "$1 $2")
+  }
+
+  /**
+   * Name an emoji sequence, falling back to its first pictograph; unknown emoji are dropped
+   */
+  private nameEmoji(emoji: string): string {
+    const key = emoji.replace(EMOJI_MODIFIERS, "")
+    if (emojiNames[key]) return emojiNames[key]
+
+    const [first] = key.split("\u200D")
+    return emojiNames[first] || ""
+  }
+
+  /**
+   * m00n -> moon, but only when the decoded word is known, so 100x and 4am survive
+   */
+  private decodeLeet(word: string): string {
+    if (/^[@$]/.test(word) || !/\p{L}/u.test(word) || !/[013457@$]/.test(word)) {
+      return word
+    }
+
+    let candidates = [""]
+    for (const char of word.toLowerCase()) {
+      const options = leetCharacters[char] || [char]
+      candidates = candidates.flatMap((prefix) => options.map((option) => prefix + option))
+    }
+
+    for (const candidate of candidates) {
+      const resolved = this.resolveElongation(candidate)
+      if (this.vocabulary.has(resolved)) return resolved
+    }
+
+    return word
+  }
+
+  private collapseElongation(word: string): string {
+    if (/^[@$]/.test(word) || !/(\p{L})\1\1/u.test(word)) return word
+    return this.resolveElongation(word)
+  }
+
+  /**
+   * Shrink runs of 3+ repeated letters to whichever of 2 or 1 letters makes
+   * a known word (moooon -> moon, pumppp -> pump), otherwise to 1 (noooo -> no)
+   */
+  private resolveElongation(word: string): string {
+    const runs = word.match(/(.)\1*/gu) || []
+    let candidates = [""]
+
+    for (const run of runs) {
+      const options = run.length >= 3 && /\p{L}/u.test(run) ? [run.slice(0, 2), run[0]] : [run]
+      candidates = candidates.flatMap((prefix) => options.map((option) => prefix + option))
+    }
+
+    const known = candidates.find((candidate) => this.vocabulary.has(candidate.toLowerCase()))
+    return known ?? candidates[candidates.length - 1]
+  }
+
+  private replaceWords(text: string, replace: (word: string) => string): string {
+    return text.replace(this.wordPattern, replace)
+  }
+}
+
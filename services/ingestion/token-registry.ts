@@ -0,0 +1,125 @@
+/**
+ * Local registry of known tokens
+ * Our own token comes from config.token; peers and market majors are listed
+ * here so mentions can be told apart without network lookups.
+ */
+
+import { config } from "@/lib/config"
+import type { TokenRole } from "@/lib/types"
+import type { TokenProfile } from "./query-builder"
+
+export interface RegisteredToken {
+  symbol: string
+  role: Exclude<TokenRole, "unknown">
+  mintAddress?: string
+  aliases?: readonly string[]
+  handles?: readonly string[]
+}
+
+export const knownTokens: RegisteredToken[] = [
+  // Market majors
+  { symbol: "BTC", role: "market", aliases: ["bitcoin"], handles: ["bitcoin"] },
+  { symbol: "ETH", role: "market", aliases: ["ethereum"], handles: ["ethereum"] },
+  {
+    symbol: "SOL",
+    role: "market",
+    mintAddress: "So11111111111111111111111111111111111111112",
+    aliases: ["solana"],
+    handles: ["solana"],
+  },
+  { symbol: "USDC", role: "market", mintAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" },
+  { symbol: "USDT", role: "market", mintAddress: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB" },
+
+  // Solana peers competing for the same attention
+  {
+    symbol: "BONK",
+    role: "peer",
+    mintAddress: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+    handles: ["bonk_inu"],
+  },
+  {
+    symbol: "WIF",
+    role: "peer",
+    mintAddress: "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm",
+    aliases: ["dogwifhat"],
+    handles: ["dogwifcoin"],
+  },
+  {
+    symbol: "JUP",
+    role: "peer",
+    mintAddress: "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN",
+    aliases: ["jupiter"],
+    handles: ["JupiterExchange"],
+  },
+]
+
+export class TokenRegistry {
+  private bySymbol: Map<string, RegisteredToken>
+  private byMint: Map<string, RegisteredToken>
+  private byHandle: Map<string, RegisteredToken>
+  private aliases: Map<string, { pattern: RegExp; token: RegisteredToken }>
+
+  constructor(ownToken: TokenProfile = config.token, tokens: RegisteredToken[] = knownTokens) {
+    this.bySymbol = new Map()
+    this.byMint = new Map()
+    this.byHandle = new Map()
+    this.aliases = new Map()
+
+    for (const token of tokens) {
+      this.register(token)
+    }
+
+    // Registered last so our token wins any symbol clash
+    this.register({
+      symbol: ownToken.symbol.replace(/^\$/, ""),
+      role: "ours",
+      mintAddress: ownToken.mintAddress || undefined,
+      aliases: ownToken.aliases,
+      handles: ownToken.handles,
+    })
+  }
+
+  /**
+   * Add or replace a token
+   */
+  register(token: RegisteredToken): void {
+    const entry = { ...token, symbol: token.symbol.toUpperCase() }
+
+    this.bySymbol.set(entry.symbol, entry)
+    if (entry.mintAddress) {
+      this.byMint.set(entry.mintAddress, entry)
+    }
+    for (const handle of entry.handles || []) {
+      this.byHandle.set(handle.replace(/^@/, "").toLowerCase(), entry)
+    }
+    for (const alias of entry.aliases || []) {
+      // "Mood Agent" also matches "MoodAgent"
+      const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s*")
+      this.aliases.set(alias.toLowerCase(), { pattern: new RegExp(`\\b${escaped}\\b`, "i"), token: entry })
+    }
+  }
+
+  findBySymbol(symbol: string): RegisteredToken | null {
+    return this.bySymbol.get(symbol.replace(/^\$/, "").toUpperCase()) || null
+  }
+
+  /**
+   * Mint addresses are case-sensitive base58
+   */
+  findByMint(mintAddress: string): RegisteredToken | null {
+    return this.byMint.get(mintAddress) || null
+  }
+
+  findByHandle(handle: string): RegisteredToken | null {
+    return this.byHandle.get(handle.replace(/^@/, "").toLowerCase()) || null
+  }
+
+  /**
+   * Tokens whose name or alias appears in the text
+   */
+  findAliases(text: string): RegisteredToken[] {
+    return Array.from(this.aliases.values())
+      .filter(({ pattern }) => pattern.test(text))
+      .map(({ token }) => token)
+  }
+}
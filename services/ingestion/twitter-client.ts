@@ -3,16 +3,36 @@
  */
 
 import axios, { type AxiosInstance } from "axios"
+import Redis from "ioredis"
+import { createHash } from "crypto"
+import type { Readable } from "stream"
 import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
-import { RateLimiter } from "@/lib/utils/rate-limiter"
-import type { Tweet } from "@/lib/types"
+import type { ReferencedTweet, Tweet } from "@/lib/types"
+import type { SocialSource, TweetHandler } from "./social-source"
+import { AuthorStore } from "./author-store"
+import type { SearchQueryBuilder } from "./query-builder"
+import { TwitterRateLimits } from "./twitter-rate-limits"
 
-export class TwitterClient {
+// Pagination a poll could not finish: where to resume, and the cursor to save once done
+interface PendingPages {
+  nextToken: string
+  newestId?: string
+}
+
+export class TwitterClient implements SocialSource {
+  readonly name = "twitter"
   private client: AxiosInstance
-  private rateLimiter: RateLimiter
+  private rateLimits: TwitterRateLimits
+  private redis: Redis
+  private authorStore: AuthorStore
+  private streamController: AbortController | null = null
+  private isStreaming = false
+  private queryBuilder: SearchQueryBuilder | null
+
+  constructor(queryBuilder?: SearchQueryBuilder) {
+    this.queryBuilder = queryBuilder || null
 
-  constructor() {
     this.client = axios.create({
       baseURL: "https://api.twitter.com/2",
       headers: {
@@ -21,40 +41,239 @@ export class TwitterClient {
       },
     })
 
-    // Rate limiter: 450 requests per 15 minutes = 0.5 requests per second
-    this.rateLimiter = new RateLimiter(450, 0.5)
+    // One bucket per endpoint, kept in sync with the x-rate-limit-* headers
+    this.rateLimits = new TwitterRateLimits()
+    this.client.interceptors.response.use(
+      (response) => {
+        this.trackRateLimit(response.config.url, response.headers)
+        return response
+      },
+      (error) => {
+        this.trackRateLimit(error.config?.url, error.response?.headers, error.response?.status)
+        return Promise.reject(error)
+      },
+    )
+    this.redis = new Redis()
+    // Lookups run inside the sentiment worker, so they never wait for quota
+    this.authorStore = new AuthorStore((userId) => this.getUserInfo(userId, { wait: false }))
   }
 
   /**
-   * Search recent tweets with crypto-related keywords
+   * Author profiles collected from expansions, with lazy lookups through this client
    */
-  async searchTweets(query: string, maxResults = 100): Promise<Tweet[]> {
-    await this.rateLimiter.waitForToken()
+  get authors(): AuthorStore {
+    return this.authorStore
+  }
 
-    try {
-      const response = await this.client.get("/tweets/search/recent", {
-        params: {
+  /**
+   * Remaining quota per endpoint
+   */
+  get quotas(): TwitterRateLimits {
+    return this.rateLimits
+  }
+
+  /**
+   * Fetch new tweets for the next query in the rotation
+   */
+  async fetchBatch(): Promise<Tweet[]> {
+    return this.searchTweets(this.getQueryBuilder().next(), 100)
+  }
+
+  /**
+   * Delay between polls that keeps the query rotation inside the rate budget
+   */
+  getPollIntervalMs(): number {
+    return this.getQueryBuilder().getPollIntervalMs()
+  }
+
+  /**
+   * Configure one stream rule per query and consume the filtered stream
+   */
+  async stream(onTweet: TweetHandler): Promise<void> {
+    await this.setupFilteredStream(this.getQueryBuilder().getQueries())
+    await this.streamTweets(onTweet)
+  }
+
+  /**
+   * Stop an active stream
+   */
+  stop(): void {
+    this.stopStream()
+  }
+
+  /**
+   * Search recent tweets with crypto-related keywords.
+   * Resumes from the stored since_id cursor and follows next_token pages
+   * up to the page budget. The cursor only advances once every page since
+   * the last one has been read; until then the next poll resumes from the
+   * page where this one stopped.
+   */
+  async searchTweets(
+    query: string,
+    maxResults = 100,
+    maxPages: number = config.twitter.search.maxPagesPerPoll,
+  ): Promise<Tweet[]> {
+    let sinceId = await this.getCursor(query)
+    let pending = await this.getPendingPages(query)
+    const tweets: Tweet[] = []
+    let newestId = pending?.newestId
+    let nextToken = pending?.nextToken
+    let pages = 0
+
+    if (pending) {
+      logger.info("Resuming search pagination", { query, sinceId })
+    }
+
+    while (pages === 0 || (nextToken && pages < maxPages)) {
+      await this.rateLimits.acquire("search")
+
+      try {
+        const response = await this.client.get("/tweets/search/recent", {
+          params: {
+            query,
+            max_results: Math.min(maxResults, 100),
+            since_id: sinceId,
+            next_token: nextToken,
+            "tweet.fields": "created_at,public_metrics,entities,lang,referenced_tweets",
+            "user.fields": "verified,public_metrics,created_at",
+            expansions: "author_id,referenced_tweets.id",
+          },
+        })
+
+        const data = response.data.data || []
+        const users = response.data.includes?.users || []
+        const included = response.data.includes?.tweets || []
+        const meta = response.data.meta || {}
+
+        tweets.push(...data.map((tweet: any) => this.transformTweet(tweet, included, users)))
+        await this.authorStore.upsertFromApi(users)
+
+        // Results are newest first, so the first page of a pagination holds the new cursor
+        if (pages === 0 && !pending) newestId = meta.newest_id
+        nextToken = meta.next_token
+        pages++
+      } catch (error: any) {
+        // An expired page token is rejected; start over from the cursor
+        if (error.response?.status === 400 && pending && pages === 0) {
+          logger.warn("Stored search page rejected, restarting from the cursor", { query, sinceId })
+          await this.clearPendingPages(query)
+          pending = null
+          newestId = undefined
+          nextToken = undefined
+          continue
+        }
+
+        // A cursor older than the search window is rejected; start over without it
+        if (error.response?.status === 400 && sinceId && pages === 0) {
+          logger.warn("Stored search cursor rejected, resetting", { query, sinceId })
+          await this.resetCursor(query)
+          sinceId = undefined
+          continue
+        }
+
+        // The limiter is already paused until the reset; the next poll resumes from this page
+        if (error.response?.status === 429) {
+          logger.warn("Search rate limited, returning partial results", { query, pages })
+          if (nextToken) await this.savePendingPages(query, { nextToken, newestId })
+          return tweets
+        }
+
+        logger.error("Failed to search tweets", {
+          error: error.message,
           query,
-          max_results: Math.min(maxResults, 100),
-          "tweet.fields": "created_at,public_metrics,entities,lang",
-          "user.fields": "verified,public_metrics",
-          expansions: "author_id",
-        },
-      })
+          pages,
+        })
+
+        // Keep what we already fetched; the next poll covers the missing pages again
+        if (pages > 0) {
+          if (nextToken) await this.savePendingPages(query, { nextToken, newestId })
+          return tweets
+        }
+        throw error
+      }
+    }
+
+    if (nextToken) {
+      logger.warn("Search page budget exhausted, resuming next poll", { query, pages })
+      await this.savePendingPages(query, { nextToken, newestId })
+      return tweets
+    }
+
+    if (newestId) {
+      await this.saveCursor(query, newestId)
+    }
+    if (pending) {
+      await this.clearPendingPages(query)
+    }
+
+    return tweets
+  }
 
-      const tweets = response.data.data || []
-      const users = response.data.includes?.users || []
+  /**
+   * Forget the stored since_id for a query, and any pagination left to finish
+   */
+  async resetCursor(query: string): Promise<void> {
+    try {
+      await this.redis.del(this.getCursorKey(query), this.getPendingPagesKey(query))
+    } catch (error: any) {
+      logger.error("Failed to reset search cursor", { error: error.message, query })
+    }
+  }
 
-      return tweets.map((tweet: any) => this.transformTweet(tweet, users))
+  private async getCursor(query: string): Promise<string | undefined> {
+    try {
+      const sinceId = await this.redis.get(this.getCursorKey(query))
+      return sinceId || undefined
     } catch (error: any) {
-      logger.error("Failed to search tweets", {
-        error: error.message,
-        query,
-      })
-      throw error
+      logger.error("Failed to read search cursor", { error: error.message, query })
+      return undefined
     }
   }
 
+  private async saveCursor(query: string, sinceId: string): Promise<void> {
+    try {
+      await this.redis.set(this.getCursorKey(query), sinceId, "EX", config.twitter.search.cursorTtlSeconds)
+    } catch (error: any) {
+      logger.error("Failed to save search cursor", { error: error.message, query })
+    }
+  }
+
+  private async getPendingPages(query: string): Promise<PendingPages | null> {
+    try {
+      const stored = await this.redis.get(this.getPendingPagesKey(query))
+      return stored ? JSON.parse(stored) : null
+    } catch (error: any) {
+      logger.error("Failed to read search pagination", { error: error.message, query })
+      return null
+    }
+  }
+
+  private async savePendingPages(query: string, pending: PendingPages): Promise<void> {
+    try {
+      const key = this.getPendingPagesKey(query)
+      await this.redis.set(key, JSON.stringify(pending), "EX", config.twitter.search.cursorTtlSeconds)
+    } catch (error: any) {
+      logger.error("Failed to save search pagination", { error: error.message, query })
+    }
+  }
+
+  private async clearPendingPages(query: string): Promise<void> {
+    try {
+      await this.redis.del(this.getPendingPagesKey(query))
+    } catch (error: any) {
+      logger.error("Failed to clear search pagination", { error: error.message, query })
+    }
+  }
+
+  private getPendingPagesKey(query: string): string {
+    return `${this.getCursorKey(query)}:pages`
+  }
+
+  private getCursorKey(query: string): string {
+    const hash = createHash("sha1").update(query).digest("hex")
+    return `twitter:cursor:${hash}`
+  }
+
   /**
    * Stream tweets in real-time using filtered stream
    */
@@ -68,12 +287,197 @@ export class TwitterClient {
     logger.info("Filtered stream rules configured", { rules })
   }
 
+  /**
+   * Consume the filtered stream until stopStream() is called.
+   * Reconnects with exponential backoff on disconnects and heartbeat timeouts.
+   */
+  async streamTweets(onTweet: TweetHandler): Promise<void> {
+    this.isStreaming = true
+    let attempt = 0
+
+    while (this.isStreaming) {
+      let received = false
+
+      try {
+        await this.consumeStream(onTweet, () => {
+          received = true
+        })
+        logger.warn("Filtered stream closed by server")
+      } catch (error: any) {
+        if (!this.isStreaming) break
+        logger.error("Filtered stream error", {
+          error: error.message,
+          status: error.response?.status,
+        })
+        if (error.response?.status === 429) {
+          // Connection limits need a much longer cool-down than network blips
+          attempt = Math.max(attempt, 6)
+        }
+      }
+
+      if (!this.isStreaming) break
+
+      // A connection that delivered data resets the backoff
+      attempt = received ? 0 : attempt + 1
+      const delay = this.getReconnectDelay(attempt)
+
+      logger.info("Reconnecting to filtered stream", { attempt, delay })
+      await this.sleep(delay)
+    }
+
+    logger.info("Filtered stream stopped")
+  }
+
+  /**
+   * Stop consuming the filtered stream
+   */
+  stopStream(): void {
+    this.isStreaming = false
+    this.streamController?.abort()
+  }
+
+  /**
+   * Open one stream connection and resolve when it ends
+   */
+  private async consumeStream(onTweet: TweetHandler, onData: () => void): Promise<void> {
+    await this.rateLimits.acquire("stream")
+
+    const controller = new AbortController()
+    this.streamController = controller
+
+    const response = await this.client.get("/tweets/search/stream", {
+      params: {
+        "tweet.fields": "created_at,public_metrics,entities,lang,referenced_tweets",
+        "user.fields": "verified,public_metrics,created_at",
+        expansions: "author_id,referenced_tweets.id",
+      },
+      responseType: "stream",
+      signal: controller.signal,
+    })
+
+    const stream = response.data as Readable
+    logger.info("Connected to filtered stream")
+
+    await new Promise<void>((resolve, reject) => {
+      let buffer = ""
+      let pending = Promise.resolve()
+      let heartbeat: ReturnType<typeof setTimeout> | undefined
+      let settled = false
+
+      const finish = (error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(heartbeat)
+        this.streamController = null
+        // Let already-parsed tweets reach the handler before reconnecting
+        pending.then(() => (error ? reject(error) : resolve()))
+      }
+
+      const resetHeartbeat = () => {
+        clearTimeout(heartbeat)
+        heartbeat = setTimeout(() => {
+          controller.abort()
+          stream.destroy()
+          finish(new Error("Filtered stream heartbeat timeout"))
+        }, config.ingestion.stream.heartbeatTimeoutMs)
+      }
+
+      resetHeartbeat()
+
+      stream.on("data", (chunk: Buffer) => {
+        resetHeartbeat()
+        onData()
+
+        buffer += chunk.toString("utf8")
+        const lines = buffer.split(/\r?\n/)
+        buffer = lines.pop() ?? ""
+
+        for (const line of lines) {
+          const tweet = this.parseStreamLine(line)
+          if (!tweet) continue
+
+          pending = pending
+            .then(() => onTweet(tweet))
+            .catch((error: any) => {
+              logger.error("Stream tweet handler failed", {
+                error: error.message,
+                tweetId: tweet.id,
+              })
+            })
+        }
+      })
+
+      stream.on("end", () => finish())
+      stream.on("error", (error: Error) => finish(error))
+    })
+  }
+
+  /**
+   * Parse one NDJSON line from the stream; blank lines are keep-alives
+   */
+  private parseStreamLine(line: string): Tweet | null {
+    const trimmed = line.trim()
+    if (!trimmed) return null
+
+    try {
+      const payload = JSON.parse(trimmed)
+
+      if (payload.errors && !payload.data) {
+        logger.warn("Filtered stream returned errors", { errors: payload.errors })
+        return null
+      }
+
+      if (!payload.data) return null
+
+      const users = payload.includes?.users || []
+      this.authorStore.upsertFromApi(users)
+
+      return this.transformTweet(payload.data, payload.includes?.tweets || [], users)
+    } catch (error: any) {
+      logger.error("Failed to parse stream message", { error: error.message })
+      return null
+    }
+  }
+
+  /**
+   * Feed response headers and 429s into the endpoint's bucket
+   */
+  private trackRateLimit(url: string | undefined, headers: any, status?: number): void {
+    const endpoint = url ? TwitterRateLimits.resolveEndpoint(url) : null
+    if (!endpoint) return
+
+    if (status === 429) {
+      this.rateLimits.handleTooManyRequests(endpoint, headers || {})
+    } else if (headers) {
+      this.rateLimits.update(endpoint, headers)
+    }
+  }
+
+  private getQueryBuilder(): SearchQueryBuilder {
+    if (!this.queryBuilder) {
+      throw new Error("TwitterClient was created without search queries")
+    }
+    return this.queryBuilder
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const { reconnectBaseDelayMs, reconnectMaxDelayMs } = config.ingestion.stream
+    const delay = reconnectBaseDelayMs * Math.pow(2, Math.max(attempt - 1, 0))
+    return Math.min(delay, reconnectMaxDelayMs)
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+
   private async deleteStreamRules(): Promise<void> {
     try {
+      await this.rateLimits.acquire("streamRules")
       const response = await this.client.get("/tweets/search/stream/rules")
       const rules = response.data.data || []
 
       if (rules.length > 0) {
+        await this.rateLimits.acquire("streamRules")
         const ids = rules.map((rule: any) => rule.id)
         await this.client.post("/tweets/search/stream/rules", {
           delete: { ids },
@@ -86,6 +490,7 @@ export class TwitterClient {
 
   private async addStreamRules(rules: string[]): Promise<void> {
     try {
+      await this.rateLimits.acquire("streamRules")
       await this.client.post("/tweets/search/stream/rules", {
         add: rules.map((rule, index) => ({
           value: rule,
@@ -100,9 +505,17 @@ export class TwitterClient {
 
   /**
    * Get user information for weight calculation
+   * Resolves to undefined when `wait` is false and the users endpoint has no quota left, null when the lookup fails
    */
-  async getUserInfo(userId: string): Promise<any> {
-    await this.rateLimiter.waitForToken()
+  async getUserInfo(userId: string, { wait = true }: { wait?: boolean } = {}): Promise<any> {
+    if (!wait) {
+      if (!(await this.rateLimits.tryAcquire("users"))) {
+        logger.debug("No users quota left, skipping user lookup", { userId })
+        return undefined
+      }
+    } else {
+      await this.rateLimits.acquire("users")
+    }
 
     try {
       const response = await this.client.get(`/users/${userId}`, {
@@ -111,7 +524,7 @@ export class TwitterClient {
         },
       })
 
-      return response.data.data
+      return response.data.data || null
     } catch (error: any) {
       logger.error("Failed to get user info", {
         error: error.message,
@@ -121,13 +534,16 @@ export class TwitterClient {
     }
   }
 
-  private transformTweet(tweet: any, users: any[]): Tweet {
-    const author = users.find((u: any) => u.id === tweet.author_id)
-
+  /**
+   * @param included tweets from `includes.tweets`, used to resolve quoted and replied-to text
+   * @param users users from `includes.users`, used to resolve the author's handle
+   */
+  private transformTweet(tweet: any, included: any[], users: any[] = []): Tweet {
     return {
       id: tweet.id,
       text: tweet.text,
       authorId: tweet.author_id,
+      authorUsername: users.find((user: any) => user.id === tweet.author_id)?.username,
       createdAt: new Date(tweet.created_at),
       metrics: {
         likes: tweet.public_metrics?.like_count || 0,
@@ -139,7 +555,35 @@ export class TwitterClient {
         hashtags: tweet.entities?.hashtags?.map((h: any) => h.tag) || [],
         cashtags: tweet.entities?.cashtags?.map((c: any) => c.tag) || [],
         mentions: tweet.entities?.mentions?.map((m: any) => m.username) || [],
+        urls: tweet.entities?.urls?.map((u: any) => u.expanded_url || u.url) || [],
       },
+      source: this.name,
+      lang: tweet.lang,
+      referencedTweets: this.resolveReferences(tweet, included),
     }
   }
+
+  /**
+   * Attach the text of quoted and replied-to tweets; retweets never get this far
+   */
+  private resolveReferences(tweet: any, included: any[]): ReferencedTweet[] | undefined {
+    const references: ReferencedTweet[] = []
+
+    for (const reference of tweet.referenced_tweets || []) {
+      if (reference.type !== "quoted" && reference.type !== "replied_to") continue
+
+      // Deleted or protected parents are missing from the expansion
+      const parent = included.find((t: any) => t.id === reference.id)
+      if (!parent?.text) continue
+
+      references.push({
+        type: reference.type,
+        id: parent.id,
+        text: parent.text,
+        authorId: parent.author_id,
+      })
+    }
+
+    return references.length > 0 ? references : undefined
+  }
 }
@@ -0,0 +1,141 @@
+/**
+ * Per-endpoint Twitter rate limiting
+ * Each endpoint has its own token bucket, resynchronised from the
+ * x-rate-limit-* response headers and paused until reset on 429.
+ */
+
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { RateLimiter } from "@/lib/utils/rate-limiter"
+
+export type TwitterEndpoint = keyof typeof config.twitter.rateLimits
+
+export interface EndpointQuota {
+  endpoint: TwitterEndpoint
+  remaining: number
+  limit: number
+  resetAt: Date | null
+  pausedUntil: Date | null
+}
+
+export class TwitterRateLimits {
+  private limiters: Map<TwitterEndpoint, RateLimiter>
+  private quotas: Map<TwitterEndpoint, EndpointQuota>
+  private redis: Redis
+  private readonly metricsKey = "metrics:twitter:rate_limit"
+
+  constructor() {
+    this.redis = new Redis()
+    this.limiters = new Map()
+    this.quotas = new Map()
+
+    for (const endpoint of Object.keys(config.twitter.rateLimits) as TwitterEndpoint[]) {
+      const { limit, windowMs } = config.twitter.rateLimits[endpoint]
+      this.limiters.set(endpoint, new RateLimiter(limit, limit / (windowMs / 1000)))
+      this.quotas.set(endpoint, { endpoint, remaining: limit, limit, resetAt: null, pausedUntil: null })
+    }
+  }
+
+  /**
+   * Map a request path to its rate-limited endpoint
+   */
+  static resolveEndpoint(path: string): TwitterEndpoint | null {
+    if (path.startsWith("/tweets/search/recent")) return "search"
+    if (path.startsWith("/tweets/search/stream/rules")) return "streamRules"
+    if (path.startsWith("/tweets/search/stream")) return "stream"
+    if (path.startsWith("/users")) return "users"
+    return null
+  }
+
+  /**
+   * Wait until the endpoint has quota
+   */
+  async acquire(endpoint: TwitterEndpoint): Promise<void> {
+    const limiter = this.getLimiter(endpoint)
+    const pausedUntil = limiter.getBlockedUntil()
+
+    if (pausedUntil) {
+      logger.warn("Rate limited, waiting for reset", { endpoint, until: pausedUntil.toISOString() })
+    }
+
+    await limiter.waitForToken()
+  }
+
+  /**
+   * Take quota if the endpoint has some left, without waiting
+   */
+  async tryAcquire(endpoint: TwitterEndpoint): Promise<boolean> {
+    return this.getLimiter(endpoint).acquire()
+  }
+
+  /**
+   * Resynchronise from x-rate-limit-* headers of any response
+   */
+  update(endpoint: TwitterEndpoint, headers: Record<string, any>): void {
+    const remaining = Number.parseInt(headers["x-rate-limit-remaining"])
+    const limit = Number.parseInt(headers["x-rate-limit-limit"])
+    const reset = Number.parseInt(headers["x-rate-limit-reset"]) // epoch seconds
+
+    if (Number.isNaN(remaining)) return
+
+    const resetAt = Number.isNaN(reset) ? undefined : reset * 1000
+    const limiter = this.getLimiter(endpoint)
+    limiter.sync(remaining, resetAt)
+
+    const quota = this.quotas.get(endpoint)!
+    quota.remaining = remaining
+    if (!Number.isNaN(limit)) quota.limit = limit
+    quota.resetAt = resetAt ? new Date(resetAt) : null
+    quota.pausedUntil = limiter.getBlockedUntil()
+
+    this.publish(quota)
+  }
+
+  /**
+   * Back off until the reset time after a 429
+   */
+  handleTooManyRequests(endpoint: TwitterEndpoint, headers: Record<string, any>): void {
+    const reset = Number.parseInt(headers["x-rate-limit-reset"])
+    const { windowMs } = config.twitter.rateLimits[endpoint]
+    // Without a reset header, sit out a whole window
+    const resetAt = Number.isNaN(reset) ? Date.now() + windowMs : reset * 1000
+
+    const limiter = this.getLimiter(endpoint)
+    limiter.pauseUntil(resetAt)
+
+    const quota = this.quotas.get(endpoint)!
+    quota.remaining = 0
+    quota.resetAt = new Date(resetAt)
+    quota.pausedUntil = limiter.getBlockedUntil()
+
+    logger.warn("Twitter rate limit hit", { endpoint, resetAt: quota.resetAt.toISOString() })
+    this.publish(quota)
+  }
+
+  /**
+   * Current quota for every endpoint
+   */
+  getQuotas(): EndpointQuota[] {
+    return Array.from(this.quotas.values()).map((quota) => ({ ...quota }))
+  }
+
+  private getLimiter(endpoint: TwitterEndpoint): RateLimiter {
+    return this.limiters.get(endpoint)!
+  }
+
+  /**
+   * Expose the remaining quota as a metric in Redis
+   */
+  private publish(quota: EndpointQuota): void {
+    this.redis
+      .hset(this.metricsKey, {
+        [`${quota.endpoint}:remaining`]: quota.remaining,
+        [`${quota.endpoint}:limit`]: quota.limit,
+        [`${quota.endpoint}:reset`]: quota.resetAt ? quota.resetAt.getTime() : 0,
+      })
+      .catch((error: any) => {
+        logger.error("Failed to publish rate limit metric", { error: error.message })
+      })
+  }
+}
@@ -3,40 +3,74 @@
  */
 
 import { TwitterClient } from "./twitter-client"
-import { TweetPreprocessor } from "./preprocessor"
-import { TweetQueue } from "./queue"
+import { FileReplaySource } from "./file-source"
+import { SearchQueryBuilder } from "./query-builder"
+import type { SocialSource } from "./social-source"
+import { TweetIntake } from "./intake"
 import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
 
 class IngestionWorker {
-  private twitterClient: TwitterClient
-  private preprocessor: TweetPreprocessor
-  private queue: TweetQueue
+  private source: SocialSource
+  private intake: TweetIntake
   private isRunning = false
 
   constructor() {
-    this.twitterClient = new TwitterClient()
-    this.preprocessor = new TweetPreprocessor()
-    this.queue = new TweetQueue()
+    this.source = this.createSource()
+    this.intake = new TweetIntake()
   }
 
   /**
    * Start the ingestion worker
    */
   async start(): Promise<void> {
-    logger.info("Starting ingestion worker")
+    const mode = config.ingestion.mode
+    logger.info("Starting ingestion worker", { mode, source: this.source.name })
     this.isRunning = true
 
-    // Build search query for crypto-related tweets
-    const cryptoQuery = this.buildSearchQuery()
+    if (mode === "stream") {
+      await this.runStream()
+    } else {
+      await this.runPoll()
+    }
+  }
 
-    // Main ingestion loop
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    logger.info("Stopping ingestion worker")
+    this.isRunning = false
+    this.source.stop()
+  }
+
+  /**
+   * Poll recent search on a fixed interval
+   */
+  private async runPoll(): Promise<void> {
     while (this.isRunning) {
       try {
-        await this.ingestBatch(cryptoQuery)
+        // The search cursor stays put while paused, so the backlog is
+        // picked up by later polls (within the page budget)
+        const backpressure = this.intake.backpressure
+        await backpressure.refresh()
+        if (backpressure.shouldPause()) {
+          logger.debug("Ingestion paused by backpressure", { depth: backpressure.getDepth() })
+          await this.sleep(config.ingestion.backpressure.checkIntervalMs)
+          continue
+        }
+
+        await this.ingestBatch()
+
+        // A finite source (e.g. a replay file) ends on its own
+        if (this.source.isExhausted?.()) {
+          logger.info("Source exhausted", { source: this.source.name })
+          this.isRunning = false
+          break
+        }
 
         // Wait before next batch
-        await this.sleep(60000) // 1 minute
+        await this.sleep(this.source.getPollIntervalMs?.() ?? config.ingestion.pollIntervalMs)
       } catch (error: any) {
         logger.error("Ingestion error", { error: error.message })
         await this.sleep(5000) // Wait 5 seconds on error
@@ -45,68 +79,50 @@ class IngestionWorker {
   }
 
   /**
-   * Stop the worker
+   * Consume the source as a stream, pushing tweets straight into the queue
    */
-  stop(): void {
-    logger.info("Stopping ingestion worker")
-    this.isRunning = false
+  private async runStream(): Promise<void> {
+    while (this.isRunning) {
+      try {
+        await this.source.stream(async (tweet) => {
+          // A live stream cannot be paused, so throttling drops or samples here
+          await this.intake.ingest([tweet])
+        })
+
+        // A finite source (e.g. a replay file) ends on its own
+        if (this.isRunning) {
+          logger.info("Source stream ended", { source: this.source.name })
+          this.isRunning = false
+        }
+      } catch (error: any) {
+        logger.error("Stream ingestion error", { error: error.message })
+        await this.sleep(5000)
+      }
+    }
   }
 
   /**
    * Ingest a batch of tweets
    */
-  private async ingestBatch(query: string): Promise<void> {
+  private async ingestBatch(): Promise<void> {
     const startTime = Date.now()
 
     try {
-      // Search for recent tweets
-      const tweets = await this.twitterClient.searchTweets(query, 100)
+      // Fetch new tweets from the source
+      const tweets = await this.source.fetchBatch()
 
-      logger.info("Fetched tweets", { count: tweets.length })
+      logger.info("Fetched tweets", { count: tweets.length, source: this.source.name })
 
       // Process and enqueue each tweet
-      for (const tweet of tweets) {
-        try {
-          // Preprocess
-          const cleanedText = this.preprocessor.cleanText(tweet.text)
-          const language = this.preprocessor.detectLanguage(cleanedText)
-          const isBot = this.preprocessor.detectBot(tweet)
-
-          // Skip non-English/Turkish or bot tweets
-          if (!["en", "tr"].includes(language) || isBot) {
-            logger.debug("Skipping tweet", {
-              tweetId: tweet.id,
-              language,
-              isBot,
-            })
-            continue
-          }
-
-          // Extract crypto features
-          const cryptoFeatures = this.preprocessor.extractCryptoFeatures(cleanedText)
-
-          // Only process tweets with crypto keywords
-          if (!cryptoFeatures.hasCryptoKeywords) {
-            continue
-          }
-
-          // Enqueue for sentiment analysis
-          await this.queue.enqueue({
-            ...tweet,
-            text: cleanedText,
-          })
-        } catch (error: any) {
-          logger.error("Failed to process tweet", {
-            error: error.message,
-            tweetId: tweet.id,
-          })
-        }
-      }
+      const counts = await this.intake.ingest(tweets)
 
       const duration = Date.now() - startTime
       logger.info("Batch ingestion complete", {
         duration,
         tweetsProcessed: tweets.length,
+        enqueued: counts.enqueued,
+        sampledOut: counts.sampledOut,
+        backpressure: this.intake.backpressure.getState(),
       })
     } catch (error: any) {
       logger.error("Batch ingestion failed", { error: error.message })
@@ -115,14 +131,16 @@ class IngestionWorker {
   }
 
   /**
-   * Build search query for crypto tweets
+   * Create the configured social source
    */
-  private buildSearchQuery(): string {
-    const keywords = config.sentiment.cryptoLexicon.slice(0, 10) // Use top keywords
-    const query = keywords.join(" OR ")
+  private createSource(): SocialSource {
+    if (config.ingestion.source === "file") {
+      const { path, speed, batchSize } = config.ingestion.replay
+      return new FileReplaySource(path, speed, batchSize)
+    }
 
-    // Add filters
-    return `(${query}) -is:retweet -is:reply lang:en OR lang:tr`
+    // Search queries built from the tracked token profile
+    return new TwitterClient(new SearchQueryBuilder())
   }
 
   private sleep(ms: number): Promise<void> {
@@ -47,6 +47,16 @@ export class DecisionEngine {
         action = "HODL_TREASURY"
         reason = `High sentiment (z=${mood.zScore.toFixed(2)}) and positive momentum - waiting`
       }
+      // Rule 2a: market-wide FUD that does not reach our token is no signal
+      else if (
+        mood.zScore <= config.policy.fudThreshold &&
+        market.momentum <= config.policy.momentumNegative &&
+        this.isMarketWideFud(mood)
+      ) {
+        action = "NOOP"
+        const ourZScore = mood.topics.ours.zScore
+        reason = `Market-wide FUD (z=${mood.zScore.toFixed(2)}) but our token is at z=${ourZScore.toFixed(2)} - ignoring`
+      }
       // Rule 2: BUYBACK during FUD dips
       else if (mood.zScore <= config.policy.fudThreshold && market.momentum <= config.policy.momentumNegative) {
         action = "BUYBACK"
@@ -112,6 +122,19 @@ export class DecisionEngine {
     }
   }
 
+  /**
+   * FUD that shows in the overall mood but not in tweets about our token.
+   * Without enough scored tweets about us the "ours" scores are carried over, so
+   * there is nothing to compare and it counts as ours.
+   */
+  private isMarketWideFud(mood: AggregatedMood): boolean {
+    const ours = mood.topics?.ours
+    if (!config.policy.ignoreMarketWideFud || !ours || ours.scoredVolume < config.sentiment.topics.minTweets) {
+      return false
+    }
+    return ours.zScore > config.policy.fudThreshold
+  }
+
   /**
    * Detect bearish crossover (EMA15 crosses below EMA60)
    */
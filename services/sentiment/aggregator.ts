@@ -1,23 +1,30 @@
 /**
  * Sentiment aggregator with z-score calculation and EMA smoothing
+ * Besides the overall mood, keeps a series per topic bucket and per tracked token.
  */
 
-import { ExponentialMovingAverage, calculateZScore, calculateMean, calculateStdDev } from "@/lib/utils/math"
 import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
-import type { ProcessedTweet, AggregatedMood } from "@/lib/types"
+import type { ProcessedTweet, AggregatedMood, TopicMood } from "@/lib/types"
+import { MoodSeries } from "./mood-series"
+import { compareVersions } from "./lexicon-document"
 
 export class SentimentAggregator {
-  private ema5: ExponentialMovingAverage
-  private ema15: ExponentialMovingAverage
-  private ema60: ExponentialMovingAverage
-  private historicalScores: number[] = []
-  private maxHistorySize = 1000
+  private overall: MoodSeries
+  private topicSeries: Map<string, MoodSeries>
+  private tokenSeries: Map<string, MoodSeries>
 
   constructor() {
-    this.ema5 = new ExponentialMovingAverage(config.policy.emaShort)
-    this.ema15 = new ExponentialMovingAverage(config.policy.emaMedium)
-    this.ema60 = new ExponentialMovingAverage(config.policy.emaLong)
+    this.overall = new MoodSeries()
+    this.topicSeries = new Map()
+    this.tokenSeries = new Map()
+
+    for (const topic of this.getTopicBuckets().keys()) {
+      this.topicSeries.set(topic, new MoodSeries())
+    }
+    for (const symbol of this.getTrackedTokens()) {
+      this.tokenSeries.set(symbol, new MoodSeries())
+    }
   }
 
   /**
@@ -29,35 +36,40 @@ export class SentimentAggregator {
     }
 
     // Calculate weighted average sentiment
-    let totalSentiment = 0
-    let totalWeight = 0
-
-    for (const tweet of tweets) {
-      const weight = tweet.authorWeight * tweet.sentiment.confidence
-      totalSentiment += tweet.sentiment.value * weight
-      totalWeight += weight
-    }
+    const clusterShares = this.shareClusterVotes(tweets)
+    const { rawScore: batchScore, estimatedVolume } = this.score(tweets, clusterShares)
+    // A batch with nothing left to score (every tweet disputed) carries the last point over
+    const { rawScore, zScore, ema5, ema15, ema60 } =
+      batchScore === null ? this.overall.getLast() : this.overall.add(batchScore)
 
-    const rawScore = totalWeight > 0 ? totalSentiment / totalWeight : 0
+    // Topic breakdown by mentioned tokens
+    const topicBreakdown = this.analyzeTopics(tweets)
 
-    // Update EMAs
-    const ema5 = this.ema5.add(rawScore)
-    const ema15 = this.ema15.add(rawScore)
-    const ema60 = this.ema60.add(rawScore)
+    // Separate series per topic bucket and tracked token
+    const topics: AggregatedMood["topics"] = {}
+    for (const [topic, symbols] of this.getTopicBuckets()) {
+      const matching = tweets.filter((tweet) =>
+        (tweet.tokens ?? []).some((token) =>
+          topic === "ours" ? token.role === "ours" : token.symbol !== null && symbols.has(token.symbol),
+        ),
+      )
+      topics[topic] = this.updateSeries(this.topicSeries.get(topic)!, matching, clusterShares, estimatedVolume)
+    }
 
-    // Store in history for z-score calculation
-    this.historicalScores.push(rawScore)
-    if (this.historicalScores.length > this.maxHistorySize) {
-      this.historicalScores.shift()
+    const tokens: AggregatedMood["tokens"] = {}
+    for (const [symbol, series] of this.tokenSeries) {
+      const matching = tweets.filter((tweet) => (tweet.tokens ?? []).some((token) => token.symbol === symbol))
+      tokens[symbol] = this.updateSeries(series, matching, clusterShares, estimatedVolume)
     }
 
-    // Calculate z-score
-    const mean = calculateMean(this.historicalScores)
-    const stdDev = calculateStdDev(this.historicalScores)
-    const zScore = calculateZScore(rawScore, mean, stdDev)
+    // Copypasta campaign activity
+    const campaigns = this.analyzeCampaigns(tweets)
 
-    // Topic breakdown (simplified)
-    const topicBreakdown = this.analyzeTopics(tweets)
+    const lexiconVersions = Array.from(
+      new Set(tweets.map((tweet) => tweet.sentiment.lexiconVersion).filter((version): version is string => !!version)),
+    ).sort(compareVersions)
+
+    const disputedShare = tweets.filter((tweet) => tweet.disputed).length / tweets.length
 
     const mood: AggregatedMood = {
       timestamp: new Date(),
@@ -66,46 +78,179 @@ export class SentimentAggregator {
       ema5,
       ema15,
       ema60,
-      volume: tweets.length,
+      volume: Math.round(estimatedVolume),
+      analyzedVolume: tweets.length,
+      lexiconVersions,
+      disputedShare,
       topicBreakdown,
+      topics,
+      tokens,
+      campaigns,
     }
 
     logger.debug("Aggregated mood", {
       rawScore: rawScore.toFixed(3),
       zScore: zScore.toFixed(3),
-      volume: tweets.length,
+      volume: Math.round(estimatedVolume),
+      analyzedVolume: tweets.length,
     })
 
     return mood
   }
 
   /**
-   * Analyze topic distribution
+   * Weighted average sentiment of a set of tweets; null when none of them carries weight
+   */
+  private score(
+    tweets: ProcessedTweet[],
+    clusterShares: Map<string, number>,
+  ): { rawScore: number | null; estimatedVolume: number; scoredVolume: number } {
+    let totalSentiment = 0
+    let totalWeight = 0
+    let estimatedVolume = 0
+    let scoredVolume = 0
+
+    for (const tweet of tweets) {
+      // A tweet kept by ingestion sampling stands for the ones dropped with it
+      const sampleWeight = tweet.sampleWeight ?? 1
+      estimatedVolume += sampleWeight
+
+      // Disputed tweets still count towards volume, just not towards the score
+      if (tweet.disputed && config.sentiment.combiner.excludeDisputed) continue
+
+      const weight =
+        sampleWeight *
+        tweet.authorWeight *
+        tweet.sentiment.confidence *
+        this.getDuplicateFactor(tweet, clusterShares) *
+        (1 - (tweet.botScore ?? 0)) // likely bots fade out instead of being cut
+      totalSentiment += tweet.sentiment.value * weight
+      totalWeight += weight
+      scoredVolume += sampleWeight
+    }
+
+    return { rawScore: totalWeight > 0 ? totalSentiment / totalWeight : null, estimatedVolume, scoredVolume }
+  }
+
+  /**
+   * Advance a topic or token series; too few tweets leave it unchanged
+   */
+  private updateSeries(
+    series: MoodSeries,
+    tweets: ProcessedTweet[],
+    clusterShares: Map<string, number>,
+    batchVolume: number,
+  ): TopicMood {
+    const { rawScore, estimatedVolume, scoredVolume } = this.score(tweets, clusterShares)
+    // Gated on the reported scored volume; disputed tweets left out of the score do not count
+    const point =
+      rawScore !== null && scoredVolume >= config.sentiment.topics.minTweets ? series.add(rawScore) : series.getLast()
+
+    return {
+      ...point,
+      volume: Math.round(estimatedVolume),
+      scoredVolume: Math.round(scoredVolume),
+      share: batchVolume > 0 ? estimatedVolume / batchVolume : 0,
+    }
+  }
+
+  /**
+   * Topic buckets by symbol; "ours" matches on token role instead
    */
-  private analyzeTopics(tweets: ProcessedTweet[]): {
-    ourCoin: number
-    generalMarket: number
-  } {
-    // Simple heuristic: check for specific cashtags/mentions
-    // In production, use topic modeling or NER
+  private getTopicBuckets(): Map<string, Set<string>> {
+    const buckets = new Map<string, Set<string>>([["ours", new Set()]])
+    for (const [topic, symbols] of Object.entries(config.sentiment.topics.buckets)) {
+      buckets.set(topic, new Set(symbols.map((symbol) => symbol.toUpperCase())))
+    }
+    return buckets
+  }
+
+  private getTrackedTokens(): string[] {
+    const symbols = [config.token.symbol, ...config.sentiment.topics.trackedTokens]
+    return Array.from(new Set(symbols.map((symbol) => symbol.replace(/^\$/, "").toUpperCase())))
+  }
+
+  /**
+   * Weight multiplier that stops near-duplicates from counting as independent votes
+   */
+  private getDuplicateFactor(tweet: ProcessedTweet, clusterShares: Map<string, number>): number {
+    if (config.sentiment.duplicates.mode === "downweight") {
+      return 1 / Math.sqrt(Math.max(tweet.clusterSize ?? 1, 1))
+    }
+
+    return clusterShares.get(tweet.clusterId) ?? 1
+  }
+
+  /**
+   * Collapse: a cluster casts a single vote over its whole window, in the batch
+   * holding its first tweet, shared by the copies in that batch. Copies that
+   * arrive in later batches find the vote already cast and weigh nothing.
+   */
+  private shareClusterVotes(tweets: ProcessedTweet[]): Map<string, number> {
+    const clusters = new Map<string, { count: number; founded: boolean }>()
+    for (const tweet of tweets) {
+      const cluster = clusters.get(tweet.clusterId) ?? { count: 0, founded: false }
+      cluster.count++
+      if ((tweet.clusterSize ?? 1) <= 1) cluster.founded = true
+      clusters.set(tweet.clusterId, cluster)
+    }
+
+    const shares = new Map<string, number>()
+    for (const [clusterId, { count, founded }] of clusters) {
+      shares.set(clusterId, founded ? 1 / count : 0)
+    }
+    return shares
+  }
+
+  /**
+   * Summarize near-duplicate clusters active in this batch
+   */
+  private analyzeCampaigns(tweets: ProcessedTweet[]): AggregatedMood["campaigns"] {
+    const activeClusters = new Set<string>()
+    let duplicates = 0
+    let largestClusterSize = 0
+
+    for (const tweet of tweets) {
+      const size = tweet.clusterSize ?? 1
+      if (size > 1) {
+        duplicates++
+        activeClusters.add(tweet.clusterId)
+      }
+      largestClusterSize = Math.max(largestClusterSize, size)
+    }
+
+    return {
+      duplicateShare: tweets.length > 0 ? duplicates / tweets.length : 0,
+      activeClusters: activeClusters.size,
+      largestClusterSize,
+    }
+  }
+
+  /**
+   * Analyze topic distribution by the tokens each tweet mentions.
+   * A tweet about our token counts as ours even when it also names peers.
+   */
+  private analyzeTopics(tweets: ProcessedTweet[]): AggregatedMood["topicBreakdown"] {
     let ourCoinCount = 0
+    let peerCount = 0
     let generalCount = 0
 
     for (const tweet of tweets) {
-      const text = tweet.text.toLowerCase()
+      const roles = new Set((tweet.tokens ?? []).map((token) => token.role))
 
-      // Check if tweet mentions our specific coin
-      // This should be configured based on your token
-      if (text.includes("$yourcoin") || text.includes("yourcoin")) {
+      if (roles.has("ours")) {
         ourCoinCount++
+      } else if (roles.has("peer")) {
+        peerCount++
       } else {
         generalCount++
       }
     }
 
-    const total = ourCoinCount + generalCount
+    const total = tweets.length
     return {
       ourCoin: total > 0 ? ourCoinCount / total : 0,
+      peers: total > 0 ? peerCount / total : 0,
       generalMarket: total > 0 ? generalCount / total : 0,
     }
   }
@@ -114,21 +259,17 @@ export class SentimentAggregator {
    * Get current EMA values
    */
   getCurrentEMAs(): { ema5: number; ema15: number; ema60: number } {
-    return {
-      ema5: this.ema5.value,
-      ema15: this.ema15.value,
-      ema60: this.ema60.value,
-    }
+    const { ema5, ema15, ema60 } = this.overall.getLast()
+    return { ema5, ema15, ema60 }
   }
 
   /**
    * Reset aggregator state
    */
   reset(): void {
-    this.ema5.reset()
-    this.ema15.reset()
-    this.ema60.reset()
-    this.historicalScores = []
+    this.overall.reset()
+    this.topicSeries.forEach((series) => series.reset())
+    this.tokenSeries.forEach((series) => series.reset())
   }
 
   private getEmptyMood(): AggregatedMood {
@@ -140,10 +281,21 @@ export class SentimentAggregator {
       ema15: 0,
       ema60: 0,
       volume: 0,
+      analyzedVolume: 0,
+      lexiconVersions: [],
+      disputedShare: 0,
       topicBreakdown: {
         ourCoin: 0,
+        peers: 0,
         generalMarket: 0,
       },
+      topics: {},
+      tokens: {},
+      campaigns: {
+        duplicateShare: 0,
+        activeClusters: 0,
+        largestClusterSize: 0,
+      },
     }
   }
 }
@@ -0,0 +1,199 @@
+/**
+ * Offline stacking fit
+ * Fits the StackingCombiner weights to a labeled tweet dataset (JSONL, as
+ * exported from the labeling queue), using the lexicon and model scores stored
+ * with each example, and compares every combiner on held-out examples. The
+ * queue samples uncertain tweets, so the fit favours the hard cases.
+ *
+ *   tsx services/sentiment/combiner-trainer.ts labels.jsonl [--out path]
+ *     [--holdout 0.2] [--l2 1] [--seed 42]
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import { config } from "@/lib/config"
+import type { LabeledExample, SentimentScore } from "@/lib/types"
+import {
+  ConfidenceWeightedCombiner,
+  FixedWeightCombiner,
+  StackingCombiner,
+  type SentimentCombiner,
+  type StackingWeights,
+} from "./combiner"
+import type { LexiconAnalysis } from "./lexicon"
+import { parseArgs, splitDataset } from "./lexicon-trainer"
+
+export interface StackingExample {
+  lexicon: LexiconAnalysis
+  model: SentimentScore
+  polarity: number // -1 to +1
+}
+
+export interface CombinerReport {
+  combiner: string
+  examples: number
+  meanAbsoluteError: number
+  directionAccuracy: number // sign agreement on examples labeled fomo or fud
+  brier: number
+}
+
+const ITERATIONS = 2000
+const LEARNING_RATE = 0.5
+
+/**
+ * Read the scores stored with each labeled example; lines without them are skipped
+ */
+export function readStackingDataset(path: string): { examples: StackingExample[]; skipped: number } {
+  const examples: StackingExample[] = []
+  let skipped = 0
+
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue
+
+    try {
+      const example: LabeledExample = JSON.parse(line)
+      if (typeof example.polarity === "number" && example.lexicon && example.model) {
+        examples.push({
+          // Only the scores are stored; labels do not enter the stacked value
+          lexicon: { ...example.lexicon, fomo: 0, fud: 0, neutral: 0 },
+          model: {
+            ...example.model,
+            volatility: 0,
+            labels: { fomo: 0, fud: 0, neutral: 0 },
+            timestamp: new Date(example.labeledAt),
+          },
+          polarity: example.polarity,
+        })
+        continue
+      }
+    } catch {
+      // Counted below like any other unusable line
+    }
+    skipped++
+  }
+
+  return { examples, skipped }
+}
+
+/**
+ * Logistic regression of (polarity + 1) / 2 on both sides' values and
+ * strengths, by gradient descent; the intercept is not penalised
+ */
+export function fitStacking(examples: StackingExample[], l2 = 1): StackingWeights {
+  const features = examples.map(({ lexicon, model }) => [
+    lexicon.sentiment,
+    model.value,
+    lexicon.sentiment * lexicon.confidence,
+    model.value * model.confidence,
+  ])
+  const targets = examples.map((example) => (example.polarity + 1) / 2)
+  const n = examples.length || 1
+
+  let intercept = 0
+  const weights = [0, 0, 0, 0]
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let interceptGradient = 0
+    const gradient = weights.map((weight) => (l2 * weight) / n)
+
+    features.forEach((x, i) => {
+      const z = intercept + x.reduce((sum, value, j) => sum + value * weights[j], 0)
+      const error = 1 / (1 + Math.exp(-z)) - targets[i]
+      interceptGradient += error / n
+      x.forEach((value, j) => {
+        gradient[j] += (error * value) / n
+      })
+    })
+
+    intercept -= LEARNING_RATE * interceptGradient
+    weights.forEach((_, j) => {
+      weights[j] -= LEARNING_RATE * gradient[j]
+    })
+  }
+
+  return {
+    version: new Date().toISOString().slice(0, 10),
+    intercept: round(intercept),
+    weights: {
+      lexicon: round(weights[0]),
+      model: round(weights[1]),
+      lexiconStrength: round(weights[2]),
+      modelStrength: round(weights[3]),
+    },
+  }
+}
+
+/**
+ * Score held-out examples with a combiner
+ */
+export function evaluateCombiner(combiner: SentimentCombiner, examples: StackingExample[]): CombinerReport {
+  let absoluteError = 0
+  let brier = 0
+  let directional = 0
+  let directionCorrect = 0
+
+  for (const example of examples) {
+    const { value } = combiner.combine(example.lexicon, example.model)
+
+    absoluteError += Math.abs(value - example.polarity)
+    brier += ((value + 1) / 2 - (example.polarity + 1) / 2) ** 2
+
+    if (example.polarity !== 0) {
+      directional++
+      if (Math.sign(value) === Math.sign(example.polarity)) directionCorrect++
+    }
+  }
+
+  const total = examples.length || 1
+  return {
+    combiner: combiner.name,
+    examples: examples.length,
+    meanAbsoluteError: absoluteError / total,
+    directionAccuracy: directional > 0 ? directionCorrect / directional : 0,
+    brier: brier / total,
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+// Fit, compare every combiner on held-out data, and write the stacking weights
+if (require.main === module) {
+  const { positional, flags } = parseArgs(process.argv.slice(2))
+  const [datasetPath] = positional
+
+  if (!datasetPath) {
+    console.error("Usage: combiner-trainer <labels.jsonl> [--out path] [--holdout 0.2] [--l2 1] [--seed 42]")
+    process.exit(1)
+  }
+
+  const { examples, skipped } = readStackingDataset(datasetPath)
+  const { train, test } = splitDataset(
+    examples,
+    Number.parseFloat(flags.holdout || "0.2"),
+    Number.parseInt(flags.seed || "42"),
+  )
+  const stacking = fitStacking(train, Number.parseFloat(flags.l2 || "1"))
+
+  console.log(`${examples.length} examples (${skipped} skipped): ${train.length} train, ${test.length} held out`)
+  console.log(`Stacking weights: ${JSON.stringify(stacking)}\n`)
+
+  console.log(`${"Held-out".padEnd(12)} ${"MAE".padStart(8)} ${"direction".padStart(10)} ${"brier".padStart(8)}`)
+  for (const combiner of [
+    new FixedWeightCombiner(),
+    new ConfidenceWeightedCombiner(),
+    new StackingCombiner(stacking),
+  ]) {
+    const report = evaluateCombiner(combiner, test)
+    console.log(
+      `${report.combiner.padEnd(12)} ${report.meanAbsoluteError.toFixed(4).padStart(8)} ` +
+        `${report.directionAccuracy.toFixed(4).padStart(10)} ${report.brier.toFixed(4).padStart(8)}`,
+    )
+  }
+
+  const outPath = flags.out || config.sentiment.combiner.stackingPath
+  mkdirSync(dirname(outPath), { recursive: true })
+  writeFileSync(outPath, `${JSON.stringify(stacking, null, 2)}\n`)
+  console.log(`\nWrote ${outPath}`)
+}
@@ -0,0 +1,161 @@
+/**
+ * Lexicon and model ensemble
+ * A SentimentCombiner merges the lexicon analysis and the model score of a
+ * text into one SentimentScore. Which one the worker uses is set in config.
+ * Every combined score carries the disagreement between the two sides.
+ */
+
+import { readFileSync } from "fs"
+import { resolve } from "path"
+import { z } from "zod"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import type { SentimentScore } from "@/lib/types"
+import type { LexiconAnalysis } from "./lexicon"
+
+export interface SentimentCombiner {
+  readonly name: string
+  combine(lexicon: LexiconAnalysis, model: SentimentScore): SentimentScore
+}
+
+export const stackingSchema = z.object({
+  version: z.string().default("unknown"),
+  intercept: z.number(),
+  weights: z.object({
+    lexicon: z.number(),
+    model: z.number(),
+    lexiconStrength: z.number(), // sentiment * confidence
+    modelStrength: z.number(),
+  }),
+})
+
+export type StackingWeights = z.infer<typeof stackingSchema>
+
+/**
+ * How far apart the two sides are, 0 to 1: half the gap between their values.
+ * A lexicon without matches has no opinion, so it never disagrees.
+ */
+export function measureDisagreement(lexicon: LexiconAnalysis, model: SentimentScore): number {
+  if (lexicon.confidence === 0) return 0
+  return Math.min(1, Math.abs(lexicon.sentiment - model.value) / 2)
+}
+
+/**
+ * Constant weights for value, confidence and labels; 0.3 / 0.7 by default
+ */
+export class FixedWeightCombiner implements SentimentCombiner {
+  readonly name = "fixed"
+  private lexiconWeight: number
+
+  constructor(lexiconWeight = config.sentiment.combiner.lexiconWeight) {
+    this.lexiconWeight = lexiconWeight
+  }
+
+  combine(lexicon: LexiconAnalysis, model: SentimentScore): SentimentScore {
+    return blend(lexicon, model, this.lexiconWeight)
+  }
+}
+
+/**
+ * The configured weights scaled by how confident each side is, so a lexicon
+ * without matches or an unsure fallback model barely counts
+ */
+export class ConfidenceWeightedCombiner implements SentimentCombiner {
+  readonly name = "confidence"
+  private lexiconWeight: number
+
+  constructor(lexiconWeight = config.sentiment.combiner.lexiconWeight) {
+    this.lexiconWeight = lexiconWeight
+  }
+
+  combine(lexicon: LexiconAnalysis, model: SentimentScore): SentimentScore {
+    const lexiconSide = this.lexiconWeight * lexicon.confidence
+    const modelSide = (1 - this.lexiconWeight) * model.confidence
+    const total = lexiconSide + modelSide
+
+    return blend(lexicon, model, total > 0 ? lexiconSide / total : this.lexiconWeight)
+  }
+}
+
+/**
+ * Logistic stacking over both sides' values and strengths, with weights fitted
+ * on labeled tweets (combiner-trainer.ts). The value comes from the fitted
+ * model; confidence and labels are mixed by each side's share of the weights.
+ */
+export class StackingCombiner implements SentimentCombiner {
+  readonly name = "stacking"
+  private stacking: StackingWeights
+
+  constructor(stacking: StackingWeights) {
+    this.stacking = stacking
+  }
+
+  getVersion(): string {
+    return this.stacking.version
+  }
+
+  combine(lexicon: LexiconAnalysis, model: SentimentScore): SentimentScore {
+    const { intercept, weights } = this.stacking
+    const z =
+      intercept +
+      weights.lexicon * lexicon.sentiment +
+      weights.model * model.value +
+      weights.lexiconStrength * lexicon.sentiment * lexicon.confidence +
+      weights.modelStrength * model.value * model.confidence
+
+    const lexiconSide = Math.abs(weights.lexicon) + Math.abs(weights.lexiconStrength)
+    const modelSide = Math.abs(weights.model) + Math.abs(weights.modelStrength)
+    const total = lexiconSide + modelSide
+
+    return {
+      ...blend(lexicon, model, total > 0 ? lexiconSide / total : 0.5),
+      value: Math.tanh(z / 2), // 2 * sigmoid(z) - 1
+    }
+  }
+}
+
+/**
+ * Combiner chosen in config; a stacking file that does not load falls back to fixed weights
+ */
+export function createCombiner(): SentimentCombiner {
+  const { type, stackingPath } = config.sentiment.combiner
+
+  if (type === "confidence") {
+    return new ConfidenceWeightedCombiner()
+  }
+
+  if (type === "stacking") {
+    try {
+      const raw = JSON.parse(readFileSync(resolve(process.cwd(), stackingPath), "utf-8"))
+      const combiner = new StackingCombiner(stackingSchema.parse(raw))
+      logger.info("Stacking combiner loaded", { path: stackingPath, version: combiner.getVersion() })
+      return combiner
+    } catch (error: any) {
+      logger.error("Failed to load stacking weights, using fixed weights", { error: error.message, path: stackingPath })
+    }
+  }
+
+  return new FixedWeightCombiner()
+}
+
+/**
+ * Mix both sides, the lexicon taking `lexiconShare` and the model the rest
+ */
+function blend(lexicon: LexiconAnalysis, model: SentimentScore, lexiconShare: number): SentimentScore {
+  const mix = (lexiconValue: number, modelValue: number) =>
+    lexiconValue * lexiconShare + modelValue * (1 - lexiconShare)
+
+  return {
+    value: mix(lexicon.sentiment, model.value),
+    confidence: mix(lexicon.confidence, model.confidence),
+    volatility: model.volatility,
+    labels: {
+      fomo: mix(lexicon.fomo, model.labels.fomo),
+      fud: mix(lexicon.fud, model.labels.fud),
+      neutral: mix(lexicon.neutral, model.labels.neutral),
+    },
+    timestamp: new Date(),
+    lexiconVersion: lexicon.version,
+    disagreement: measureDisagreement(lexicon, model),
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Scores a tweet in the context of the tweets it quotes or replies to
+ * A tweet with a clear opinion keeps it; a tweet with little sentiment of its
+ * own ("lol this", "100%") takes over part of its parent's sentiment.
+ */
+
+import { config } from "@/lib/config"
+import type { ReferencedTweet, SentimentScore } from "@/lib/types"
+
+export interface ContextualSentiment {
+  sentiment: SentimentScore
+  contextWeight: number // share taken from the referenced tweets
+}
+
+export class ContextScorer {
+  /**
+   * How much of the referenced tweets' sentiment a tweet should take over
+   */
+  getContextWeight(own: SentimentScore, references: ReferencedTweet[]): number {
+    if (references.length === 0) return 0
+
+    // A quote endorses (or mocks) what it shares more directly than a reply
+    const relationWeight = references.some((reference) => reference.type === "quoted")
+      ? config.sentiment.context.quotedWeight
+      : config.sentiment.context.repliedToWeight
+
+    const ownStrength = Math.min(Math.abs(own.value), 1) * own.confidence
+    return relationWeight * (1 - ownStrength)
+  }
+
+  /**
+   * Blend a tweet's own sentiment with the sentiment of its referenced tweets
+   */
+  blend(own: SentimentScore, references: ReferencedTweet[], contextScores: SentimentScore[]): ContextualSentiment {
+    const weight = this.getContextWeight(own, references)
+    if (weight === 0 || contextScores.length === 0) {
+      return { sentiment: own, contextWeight: 0 }
+    }
+
+    const context = this.average(contextScores)
+    const mix = (ownValue: number, contextValue: number) => ownValue * (1 - weight) + contextValue * weight
+
+    return {
+      sentiment: {
+        value: mix(own.value, context.value),
+        // Borrowed sentiment is only as certain as its source
+        confidence: Math.max(own.confidence, context.confidence * weight),
+        volatility: mix(own.volatility, context.volatility),
+        labels: {
+          fomo: mix(own.labels.fomo, context.labels.fomo),
+          fud: mix(own.labels.fud, context.labels.fud),
+          neutral: mix(own.labels.neutral, context.labels.neutral),
+        },
+        timestamp: own.timestamp,
+        lexiconVersion: own.lexiconVersion,
+        disagreement: own.disagreement,
+      },
+      contextWeight: weight,
+    }
+  }
+
+  /**
+   * Confidence-weighted average, for a quote that is also a reply
+   */
+  private average(scores: SentimentScore[]): SentimentScore {
+    if (scores.length === 1) return scores[0]
+
+    // Without any confidence to go on, a plain mean
+    const totalConfidence = scores.reduce((sum, score) => sum + score.confidence, 0)
+    const weight = (score: SentimentScore) => (totalConfidence > 0 ? score.confidence : 1)
+    const total = totalConfidence > 0 ? totalConfidence : scores.length
+    const weighted = (pick: (score: SentimentScore) => number) =>
+      scores.reduce((sum, score) => sum + pick(score) * weight(score), 0) / total
+
+    return {
+      value: weighted((score) => score.value),
+      confidence: Math.max(...scores.map((score) => score.confidence)),
+      volatility: weighted((score) => score.volatility),
+      labels: {
+        fomo: weighted((score) => score.labels.fomo),
+        fud: weighted((score) => score.labels.fud),
+        neutral: weighted((score) => score.labels.neutral),
+      },
+      timestamp: scores[0].timestamp,
+      lexiconVersion: scores[0].lexiconVersion,
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Active-learning labeling queue
+ * Samples tweets the lexicon and model are unsure about, or disagree on, for
+ * a team member to label. Labels form a dataset for evaluation and retraining.
+ */
+
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import type {
+  LabeledExample,
+  LabelingItem,
+  LabelingReason,
+  SentimentLabel,
+  SentimentScore,
+  Tweet,
+} from "@/lib/types"
+import type { LexiconAnalysis } from "./lexicon"
+
+export interface TextScores {
+  combined: SentimentScore
+  lexicon: LexiconAnalysis
+  model: SentimentScore
+}
+
+export interface LabelingStats {
+  pending: number
+  labeled: number
+  labels: { [label in SentimentLabel]: number }
+}
+
+export class LabelingQueue {
+  private redis: Redis
+  private readonly pendingKey = "labeling:pending" // sorted by enqueue time
+  private readonly itemsKey = "labeling:items"
+  private readonly datasetKey = "labeling:dataset"
+  private readonly skippedKey = "labeling:skipped" // ids never to queue again
+
+  constructor() {
+    this.redis = new Redis()
+  }
+
+  /**
+   * Why a tweet's scores make it worth labeling, or null when they do not
+   */
+  selectReason(scores: TextScores): LabelingReason | null {
+    const { lowConfidenceThreshold, disagreementThreshold } = config.sentiment.labeling
+    const { combined, lexicon, model } = scores
+
+    if (lexicon.confidence > 0 && Math.abs(lexicon.sentiment - model.value) >= disagreementThreshold) {
+      return "disagreement"
+    }
+    if (combined.confidence < lowConfidenceThreshold) {
+      return "low_confidence"
+    }
+
+    return null
+  }
+
+  /**
+   * Sample a scored tweet into the queue; true when it was added
+   */
+  async consider(tweet: Tweet, scores: TextScores): Promise<boolean> {
+    const reason = this.selectReason(scores)
+    if (!reason || Math.random() >= config.sentiment.labeling.sampleRate) {
+      return false
+    }
+
+    try {
+      const [pending, labeled, skipped] = await Promise.all([
+        this.redis.zcard(this.pendingKey),
+        this.redis.hexists(this.datasetKey, tweet.id),
+        this.redis.sismember(this.skippedKey, tweet.id),
+      ])
+      if (pending >= config.sentiment.labeling.maxPending || labeled || skipped) {
+        return false
+      }
+
+      const item: LabelingItem = {
+        id: tweet.id,
+        text: tweet.text,
+        referencedTweets: tweet.referencedTweets,
+        authorId: tweet.authorId,
+        createdAt: new Date(tweet.createdAt).toISOString(),
+        reason,
+        lexicon: {
+          sentiment: scores.lexicon.sentiment,
+          confidence: scores.lexicon.confidence,
+          version: scores.lexicon.version,
+        },
+        model: { value: scores.model.value, confidence: scores.model.confidence },
+        enqueuedAt: new Date().toISOString(),
+      }
+
+      // Redelivered tweets are only queued once
+      if (!(await this.redis.hsetnx(this.itemsKey, tweet.id, JSON.stringify(item)))) {
+        return false
+      }
+      await this.redis.zadd(this.pendingKey, Date.now(), tweet.id)
+
+      logger.debug("Tweet sampled for labeling", { tweetId: tweet.id, reason })
+      return true
+    } catch (error: any) {
+      logger.error("Failed to queue tweet for labeling", { error: error.message, tweetId: tweet.id })
+      return false
+    }
+  }
+
+  /**
+   * Oldest tweets waiting for a label
+   */
+  async getPending(limit = 20): Promise<LabelingItem[]> {
+    const ids = await this.redis.zrange(this.pendingKey, "0", String(limit - 1))
+    if (ids.length === 0) return []
+
+    const items = await this.redis.hmget(this.itemsKey, ...ids)
+    return items.filter((item): item is string => item !== null).map((item) => JSON.parse(item))
+  }
+
+  /**
+   * Store a label and take the tweet off the queue; null when it is not queued
+   * (already labeled or skipped by someone else)
+   */
+  async label(id: string, label: SentimentLabel, polarity: number, labeler: string): Promise<LabeledExample | null> {
+    const stored = await this.redis.hget(this.itemsKey, id)
+    if (!stored) return null
+
+    const example: LabeledExample = {
+      ...(JSON.parse(stored) as LabelingItem),
+      label,
+      polarity,
+      labeler,
+      labeledAt: new Date().toISOString(),
+    }
+
+    await this.redis
+      .multi()
+      .hset(this.datasetKey, id, JSON.stringify(example))
+      .hdel(this.itemsKey, id)
+      .zrem(this.pendingKey, id)
+      .exec()
+
+    return example
+  }
+
+  /**
+   * Drop a tweet from the queue without labeling it (spam, not about crypto);
+   * a redelivered copy is not sampled again
+   */
+  async skip(id: string): Promise<boolean> {
+    const stored = await this.redis.hget(this.itemsKey, id)
+    if (!stored) return false
+
+    const results = await this.redis
+      .multi()
+      .sadd(this.skippedKey, id)
+      .hdel(this.itemsKey, id)
+      .zrem(this.pendingKey, id)
+      .exec()
+    return results?.[1]?.[1] === 1
+  }
+
+  /**
+   * Every labeled example, oldest label first
+   */
+  async getDataset(): Promise<LabeledExample[]> {
+    const examples: LabeledExample[] = (await this.redis.hvals(this.datasetKey)).map((example) => JSON.parse(example))
+    return examples.sort((a, b) => a.labeledAt.localeCompare(b.labeledAt))
+  }
+
+  async getStats(): Promise<LabelingStats> {
+    const [pending, dataset] = await Promise.all([this.redis.zcard(this.pendingKey), this.getDataset()])
+    const labels: LabelingStats["labels"] = { fomo: 0, fud: 0, neutral: 0 }
+
+    for (const example of dataset) {
+      labels[example.label]++
+    }
+
+    return { pending, labeled: dataset.length, labels }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Lexicon document schema and versions
+ * Lexicon files are JSON or YAML; both are validated against the same schema
+ * before a CryptoLexicon is built from them.
+ */
+
+import { readFileSync } from "fs"
+import { extname, resolve } from "path"
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+import type { LexiconDocument } from "./lexicon"
+
+export const lexiconEntrySchema = z.object({
+  term: z.string().trim().min(1),
+  sentiment: z.number().min(-1).max(1),
+  weight: z.number().positive(),
+  category: z.enum(["fomo", "fud", "neutral", "bullish", "bearish"]),
+})
+
+export const lexiconPatternSchema = lexiconEntrySchema
+  .extend({
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/, "only the i, m, s and u flags are allowed")
+      .optional(),
+  })
+  .superRefine((pattern, context) => {
+    try {
+      new RegExp(pattern.pattern, `${(pattern.flags || "").replace("u", "")}gu`)
+    } catch (error: any) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message: error.message })
+    }
+  })
+
+const multiplierSchema = z.record(z.number().positive())
+
+export const lexiconSchema = z.object({
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, "version must be MAJOR.MINOR.PATCH"),
+  description: z.string().optional(),
+  terms: z.array(lexiconEntrySchema).min(1),
+  patterns: z.array(lexiconPatternSchema).default([]),
+  negators: z.array(z.string().min(1)).default([]),
+  modifiers: multiplierSchema.default({}),
+  postModifiers: multiplierSchema.default({}),
+})
+
+/**
+ * Parse and validate a lexicon document; throws with every schema violation listed
+ */
+export function parseLexicon(source: string, format: "json" | "yaml"): LexiconDocument {
+  const raw = format === "yaml" ? parseYaml(source) : JSON.parse(source)
+  const result = lexiconSchema.safeParse(raw)
+
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new Error(`Invalid lexicon: ${issues.join("; ")}`)
+  }
+
+  return result.data
+}
+
+/**
+ * Read a lexicon file; .yaml and .yml files are parsed as YAML, anything else as JSON
+ */
+export function readLexiconFile(path: string): LexiconDocument {
+  const format = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? "yaml" : "json"
+  return parseLexicon(readFileSync(resolve(process.cwd(), path), "utf-8"), format)
+}
+
+/**
+ * Compare MAJOR.MINOR.PATCH versions: negative when a is older than b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number)
+  const right = b.split(".").map(Number)
+
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+
+  return 0
+}
+
+/**
+ * 1.4.2 -> 1.5.0, for changes beyond a handful of terms
+ */
+export function nextMinorVersion(version: string): string {
+  const [major, minor] = version.split(".").map(Number)
+  return `${major}.${minor + 1}.0`
+}
+
+/**
+ * 1.4.2 -> 1.4.3
+ */
+export function nextPatchVersion(version: string): string {
+  const [major, minor, patch] = version.split(".").map(Number)
+  return `${major}.${minor}.${patch + 1}`
+}
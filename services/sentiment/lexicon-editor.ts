@@ -0,0 +1,374 @@
+/**
+ * Lexicon drafts and their audit trail
+ * Editors change a draft copy of the live lexicon in Redis; publishing makes
+ * the draft the next live version, which workers pick up through LexiconStore.
+ * Every change is logged with its author and a diff.
+ */
+
+import { randomUUID } from "crypto"
+import Redis, { type ChainableCommander } from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { TweetPreprocessor } from "../ingestion/preprocessor"
+import {
+  CryptoLexicon,
+  normalizeTerm,
+  patternKey,
+  type LexiconAnalysis,
+  type LexiconDocument,
+  type LexiconEntry,
+  type LexiconPattern,
+} from "./lexicon"
+import { compareVersions, nextPatchVersion, parseLexicon, readLexiconFile } from "./lexicon-document"
+
+export type LexiconEditAction =
+  | "upsert_term"
+  | "delete_term"
+  | "upsert_pattern"
+  | "delete_pattern"
+  | "discard"
+  | "publish"
+
+export interface EntryDiff<T> {
+  added: T[]
+  removed: T[]
+  changed: { before: T; after: T }[]
+}
+
+export interface LexiconDiff {
+  version: { before: string; after: string } | null
+  terms: EntryDiff<LexiconEntry>
+  patterns: EntryDiff<LexiconPattern>
+}
+
+export interface LexiconAuditEntry {
+  id: string
+  timestamp: string
+  author: string
+  action: LexiconEditAction
+  version: string // live version the change was made against, or the one it published
+  diff: LexiconDiff
+}
+
+export interface LexiconDraft {
+  baseVersion: string // live version the draft was started from
+  document: LexiconDocument
+  updatedAt: string | null // null while the draft is an unchanged copy of live
+  updatedBy: string | null
+}
+
+export interface LexiconTestResult {
+  text: string // as the workers see it, after cleaning
+  live: LexiconAnalysis
+  draft: LexiconAnalysis
+}
+
+export type PublishResult =
+  | { published: true; document: LexiconDocument; diff: LexiconDiff }
+  | { published: false; reason: string }
+
+const CATEGORIES: LexiconEntry["category"][] = ["fomo", "bullish", "neutral", "bearish", "fud"]
+
+// A write that lost the race against another editor after every attempt
+const WRITE_CONFLICT = Symbol("write conflict")
+const MAX_WRITE_ATTEMPTS = 5
+
+/**
+ * Terms and patterns added, removed or changed between two documents
+ */
+export function diffLexicons(before: LexiconDocument, after: LexiconDocument): LexiconDiff {
+  return {
+    version: before.version === after.version ? null : { before: before.version, after: after.version },
+    terms: diffEntries(before.terms, after.terms, (entry) => normalizeTerm(entry.term)),
+    patterns: diffEntries(before.patterns, after.patterns, patternKey),
+  }
+}
+
+export function isEmptyDiff(diff: LexiconDiff): boolean {
+  return [diff.terms, diff.patterns].every(
+    ({ added, removed, changed }) => added.length === 0 && removed.length === 0 && changed.length === 0,
+  )
+}
+
+function diffEntries<T>(before: T[], after: T[], key: (entry: T) => string): EntryDiff<T> {
+  const previous = new Map(before.map((entry) => [key(entry), entry]))
+  const next = new Map(after.map((entry) => [key(entry), entry]))
+  const diff: EntryDiff<T> = { added: [], removed: [], changed: [] }
+
+  next.forEach((entry, id) => {
+    const old = previous.get(id)
+    if (!old) diff.added.push(entry)
+    else if (JSON.stringify(old) !== JSON.stringify(entry)) diff.changed.push({ before: old, after: entry })
+  })
+  previous.forEach((entry, id) => {
+    if (!next.has(id)) diff.removed.push(entry)
+  })
+
+  return diff
+}
+
+export class LexiconEditor {
+  private redis: Redis
+  private path: string
+  private preprocessor: TweetPreprocessor
+
+  constructor(path: string = config.sentiment.lexicon.path) {
+    this.redis = new Redis()
+    this.path = path
+    this.preprocessor = new TweetPreprocessor()
+  }
+
+  /**
+   * The version workers run: the Redis copy or the file, whichever is newer
+   */
+  async getLive(redis: Redis = this.redis): Promise<LexiconDocument> {
+    const file = readLexiconFile(this.path)
+    const stored = await redis.get(config.sentiment.lexicon.redisKey)
+    if (!stored) return file
+
+    const published = parseLexicon(stored, "json")
+    return compareVersions(published.version, file.version) >= 0 ? published : file
+  }
+
+  /**
+   * The draft being edited, or a fresh copy of live when there is none
+   */
+  async getDraft(redis: Redis = this.redis): Promise<LexiconDraft> {
+    const stored = await redis.get(config.sentiment.lexicon.draftKey)
+    if (stored) return JSON.parse(stored)
+
+    const live = await this.getLive(redis)
+    return { baseVersion: live.version, document: live, updatedAt: null, updatedBy: null }
+  }
+
+  /**
+   * Draft terms grouped by category
+   */
+  getTermsByCategory(document: LexiconDocument): { [category in LexiconEntry["category"]]: LexiconEntry[] } {
+    const lexicon = new CryptoLexicon(document)
+    const grouped = {} as { [category in LexiconEntry["category"]]: LexiconEntry[] }
+
+    for (const category of CATEGORIES) {
+      grouped[category] = lexicon.getTermsByCategory(category).sort((a, b) => a.term.localeCompare(b.term))
+    }
+
+    return grouped
+  }
+
+  async upsertTerm(entry: LexiconEntry, author: string): Promise<LexiconDraft> {
+    const key = normalizeTerm(entry.term)
+    const draft = await this.edit(author, "upsert_term", (document) => ({
+      ...document,
+      terms: [...document.terms.filter((term) => normalizeTerm(term.term) !== key), entry],
+    }))
+    return draft!
+  }
+
+  /**
+   * Remove a term from the draft; null when the draft does not have it
+   */
+  async deleteTerm(term: string, author: string): Promise<LexiconDraft | null> {
+    const key = normalizeTerm(term)
+    return this.edit(author, "delete_term", (document) => {
+      const terms = document.terms.filter((entry) => normalizeTerm(entry.term) !== key)
+      return terms.length === document.terms.length ? null : { ...document, terms }
+    })
+  }
+
+  async upsertPattern(pattern: LexiconPattern, author: string): Promise<LexiconDraft> {
+    const key = patternKey(pattern)
+    const draft = await this.edit(author, "upsert_pattern", (document) => ({
+      ...document,
+      patterns: [...document.patterns.filter((entry) => patternKey(entry) !== key), pattern],
+    }))
+    return draft!
+  }
+
+  /**
+   * Remove a pattern from the draft; null when the draft does not have it
+   */
+  async deletePattern(pattern: string, flags: string | undefined, author: string): Promise<LexiconDraft | null> {
+    const key = patternKey({ pattern, flags })
+    return this.edit(author, "delete_pattern", (document) => {
+      const patterns = document.patterns.filter((entry) => patternKey(entry) !== key)
+      return patterns.length === document.patterns.length ? null : { ...document, patterns }
+    })
+  }
+
+  /**
+   * Throw the draft away and start again from live
+   */
+  async discard(author: string): Promise<void> {
+    const result = await this.transact(async (redis) => {
+      const draft = await this.getDraft(redis)
+      const live = await this.getLive(redis)
+
+      return this.commit(redis, author, "discard", live.version, diffLexicons(draft.document, live), (transaction) =>
+        transaction.del(config.sentiment.lexicon.draftKey),
+      )
+    })
+
+    if (result === WRITE_CONFLICT) {
+      throw new Error("Lexicon kept changing during discard; try again")
+    }
+  }
+
+  /**
+   * Make the draft the next live version. Refused when the draft has no
+   * changes, or when live moved on since the draft was started, so a
+   * publish never silently reverts someone else's edit.
+   */
+  async publish(author: string): Promise<PublishResult> {
+    const result = await this.transact<PublishResult>(async (redis) => {
+      const draft = await this.getDraft(redis)
+      const live = await this.getLive(redis)
+
+      if (draft.baseVersion !== live.version) {
+        return {
+          published: false,
+          reason:
+            `Draft is based on ${draft.baseVersion} but live is ${live.version}; ` +
+            "discard the draft and edit again",
+        }
+      }
+
+      const document: LexiconDocument = { ...draft.document, version: nextPatchVersion(live.version) }
+      const diff = diffLexicons(live, document)
+      if (isEmptyDiff(diff)) {
+        return { published: false, reason: "Draft has no changes" }
+      }
+
+      const committed = await this.commit(redis, author, "publish", document.version, diff, (transaction) =>
+        transaction
+          .set(config.sentiment.lexicon.redisKey, JSON.stringify(document))
+          .del(config.sentiment.lexicon.draftKey),
+      )
+      return committed === WRITE_CONFLICT ? WRITE_CONFLICT : { published: true, document, diff }
+    })
+
+    if (result === WRITE_CONFLICT) {
+      return { published: false, reason: "Lexicon kept changing during publish; try again" }
+    }
+
+    if (result.published) {
+      logger.info("Lexicon published", { version: result.document.version, author })
+    }
+    return result
+  }
+
+  /**
+   * Score a text with the live and the draft lexicon side by side
+   */
+  async test(text: string): Promise<LexiconTestResult> {
+    const [live, draft] = await Promise.all([this.getLive(), this.getDraft()])
+    const cleaned = this.preprocessor.cleanText(text)
+
+    return {
+      text: cleaned,
+      live: new CryptoLexicon(live).analyze(cleaned),
+      draft: new CryptoLexicon(draft.document).analyze(cleaned),
+    }
+  }
+
+  /**
+   * Most recent audit entries, newest first
+   */
+  async getAuditLog(limit = 50): Promise<LexiconAuditEntry[]> {
+    const entries = await this.redis.lrange(config.sentiment.lexicon.auditKey, 0, limit - 1)
+    return entries.map((entry) => JSON.parse(entry))
+  }
+
+  /**
+   * Apply a change to the draft, validate the result and log it; null when
+   * the change does not apply
+   */
+  private async edit(
+    author: string,
+    action: LexiconEditAction,
+    change: (document: LexiconDocument) => LexiconDocument | null,
+  ): Promise<LexiconDraft | null> {
+    const result = await this.transact(async (redis) => {
+      const draft = await this.getDraft(redis)
+      const changed = change(draft.document)
+      if (!changed) return null
+
+      const document = parseLexicon(JSON.stringify(changed), "json")
+      const next: LexiconDraft = {
+        baseVersion: draft.baseVersion,
+        document,
+        updatedAt: new Date().toISOString(),
+        updatedBy: author,
+      }
+
+      const diff = diffLexicons(draft.document, document)
+      const committed = await this.commit(redis, author, action, draft.baseVersion, diff, (transaction) =>
+        transaction.set(config.sentiment.lexicon.draftKey, JSON.stringify(next)),
+      )
+      return committed === WRITE_CONFLICT ? WRITE_CONFLICT : next
+    })
+
+    if (result === WRITE_CONFLICT) {
+      throw new Error(`Lexicon kept changing during ${action}; try again`)
+    }
+    return result
+  }
+
+  /**
+   * Read, decide and write under WATCH on the draft and live keys, starting
+   * over when another editor changed either in between. Every attempt has its
+   * own connection, since WATCH covers everything on a connection.
+   */
+  private async transact<T>(
+    run: (redis: Redis) => Promise<T | typeof WRITE_CONFLICT>,
+  ): Promise<T | typeof WRITE_CONFLICT> {
+    const { draftKey, redisKey } = config.sentiment.lexicon
+
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const redis = this.redis.duplicate()
+      try {
+        await redis.watch(draftKey, redisKey)
+        const result = await run(redis)
+        if (result !== WRITE_CONFLICT) return result
+        logger.warn("Lexicon changed during a write, retrying", { attempt })
+      } finally {
+        redis.disconnect()
+      }
+    }
+
+    return WRITE_CONFLICT
+  }
+
+  /**
+   * Apply a change together with its audit entry, so neither lands without the other;
+   * WRITE_CONFLICT when a watched key changed and nothing was applied
+   */
+  private async commit(
+    redis: Redis,
+    author: string,
+    action: LexiconEditAction,
+    version: string,
+    diff: LexiconDiff,
+    change: (transaction: ChainableCommander) => ChainableCommander,
+  ): Promise<void | typeof WRITE_CONFLICT> {
+    const entry: LexiconAuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      author,
+      action,
+      version,
+      diff,
+    }
+
+    const results = await change(redis.multi())
+      .lpush(config.sentiment.lexicon.auditKey, JSON.stringify(entry))
+      .ltrim(config.sentiment.lexicon.auditKey, 0, config.sentiment.lexicon.auditLength - 1)
+      .exec()
+
+    if (!results) return WRITE_CONFLICT
+
+    const failed = results.find(([error]) => error)
+    if (failed) {
+      throw new Error(`Lexicon ${action} failed: ${failed[0]!.message}`)
+    }
+  }
+}
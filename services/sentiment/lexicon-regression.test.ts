@@ -0,0 +1,14 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { runLexiconRegression } from "./lexicon-regression"
+
+test("lexicon scores of the regression fixtures are unchanged", () => {
+  const drifted = runLexiconRegression().map(({ fixture, sentiment, confidence }) => ({
+    group: fixture.group,
+    text: fixture.text,
+    expected: `${fixture.sentiment}/${fixture.confidence}`,
+    actual: `${sentiment.toFixed(3)}/${confidence.toFixed(3)}`,
+  }))
+
+  assert.deepEqual(drifted, [])
+})
@@ -0,0 +1,54 @@
+/**
+ * Lexicon regression suite
+ * Pins the lexicon score of each fixture text under the bundled default
+ * lexicon; `npm test` runs it, and fixtures are updated deliberately after
+ * changing terms or scoring rules.
+ */
+
+import { join } from "path"
+import { CryptoLexicon } from "./lexicon"
+import { readLexiconFile } from "./lexicon-document"
+import { TextNormalizer } from "../ingestion/text-normalizer"
+import fixtures from "./fixtures/lexicon-regression.json"
+
+export interface LexiconFixture {
+  group: string
+  text: string
+  sentiment: number
+  confidence: number
+}
+
+export interface LexiconRegression {
+  fixture: LexiconFixture
+  sentiment: number
+  confidence: number
+}
+
+// Fixtures are rounded to three decimals
+const TOLERANCE = 0.0015
+
+/**
+ * Score every fixture, normalized the way ingestion cleans tweets, and return
+ * the ones that drifted
+ */
+export function runLexiconRegression(lexicon: CryptoLexicon = loadDefaultLexicon()): LexiconRegression[] {
+  const normalizer = new TextNormalizer()
+  const regressions: LexiconRegression[] = []
+
+  for (const fixture of fixtures as LexiconFixture[]) {
+    const { sentiment, confidence } = lexicon.analyze(normalizer.normalize(fixture.text))
+
+    if (Math.abs(sentiment - fixture.sentiment) > TOLERANCE || Math.abs(confidence - fixture.confidence) > TOLERANCE) {
+      regressions.push({ fixture, sentiment, confidence })
+    }
+  }
+
+  return regressions
+}
+
+/**
+ * The lexicon shipped next to this file, wherever the process runs from
+ */
+function loadDefaultLexicon(): CryptoLexicon {
+  return new CryptoLexicon(readLexiconFile(join(__dirname, "lexicons", "default.json")))
+}
@@ -0,0 +1,153 @@
+/**
+ * Lexicon hot reload
+ * Keeps a CryptoLexicon on the newest lexicon version, whether it comes from
+ * the file on disk or from the copy in Redis that edits are published to.
+ */
+
+import { resolve } from "path"
+import { unwatchFile, watchFile } from "fs"
+import Redis from "ioredis"
+import { config } from "@/lib/config"
+import { logger } from "@/lib/logger"
+import { normalizeTerm, type CryptoLexicon, type LexiconDocument, type LexiconEntry } from "./lexicon"
+import { compareVersions, nextPatchVersion, parseLexicon, readLexiconFile } from "./lexicon-document"
+
+export class LexiconStore {
+  private lexicon: CryptoLexicon
+  private path: string
+  private redis: Redis
+  private document: LexiconDocument
+  private reloadTimer: NodeJS.Timeout | null = null
+
+  constructor(lexicon: CryptoLexicon, path: string = config.sentiment.lexicon.path) {
+    this.lexicon = lexicon
+    this.path = path
+    this.redis = new Redis()
+    this.document = readLexiconFile(path)
+    this.lexicon.load(this.document)
+  }
+
+  /**
+   * Pick up the Redis copy, then watch the file and Redis for newer versions
+   */
+  async start(): Promise<void> {
+    await this.reloadFromRedis()
+    await this.publishIfNewer(this.document)
+
+    watchFile(resolve(process.cwd(), this.path), { interval: 2000 }, () => {
+      this.reloadFromFile()
+    })
+
+    this.reloadTimer = setInterval(() => {
+      this.reloadFromRedis()
+    }, config.sentiment.lexicon.reloadIntervalMs)
+  }
+
+  stop(): void {
+    unwatchFile(resolve(process.cwd(), this.path))
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer)
+      this.reloadTimer = null
+    }
+  }
+
+  /**
+   * The document the lexicon currently runs on
+   */
+  getDocument(): LexiconDocument {
+    return this.document
+  }
+
+  /**
+   * Validate a document and make it current for every worker; its version
+   * must be higher than the one in use
+   */
+  async publish(document: unknown): Promise<LexiconDocument> {
+    const validated = parseLexicon(JSON.stringify(document), "json")
+
+    if (compareVersions(validated.version, this.document.version) <= 0) {
+      throw new Error(`Lexicon version ${validated.version} is not newer than ${this.document.version}`)
+    }
+
+    await this.redis.set(config.sentiment.lexicon.redisKey, JSON.stringify(validated))
+    this.apply(validated, "publish")
+    return validated
+  }
+
+  /**
+   * Add or replace a term and publish it as the next patch version
+   */
+  async addTerm(entry: LexiconEntry): Promise<LexiconDocument> {
+    const key = normalizeTerm(entry.term)
+    const terms = this.document.terms.filter((term) => normalizeTerm(term.term) !== key)
+
+    return this.publish({
+      ...this.document,
+      version: nextPatchVersion(this.document.version),
+      terms: [...terms, entry],
+    })
+  }
+
+  /**
+   * Reload the file after it changed on disk; invalid files keep the current lexicon
+   */
+  private async reloadFromFile(): Promise<void> {
+    try {
+      const document = readLexiconFile(this.path)
+      const comparison = compareVersions(document.version, this.document.version)
+
+      if (comparison <= 0) {
+        if (JSON.stringify(document) !== JSON.stringify(this.document)) {
+          logger.warn("Lexicon file changed without a version bump, ignored", {
+            path: this.path,
+            version: document.version,
+            current: this.document.version,
+          })
+        }
+        return
+      }
+
+      this.apply(document, "file")
+      await this.publishIfNewer(document)
+    } catch (error: any) {
+      logger.error("Failed to reload lexicon file", { error: error.message, path: this.path })
+    }
+  }
+
+  private async reloadFromRedis(): Promise<void> {
+    try {
+      const stored = await this.redis.get(config.sentiment.lexicon.redisKey)
+      if (!stored) return
+
+      const document = parseLexicon(stored, "json")
+      if (compareVersions(document.version, this.document.version) > 0) {
+        this.apply(document, "redis")
+      }
+    } catch (error: any) {
+      logger.error("Failed to reload lexicon from Redis", { error: error.message })
+    }
+  }
+
+  /**
+   * Share a file version with the other workers when Redis holds an older one
+   */
+  private async publishIfNewer(document: LexiconDocument): Promise<void> {
+    try {
+      const stored = await this.redis.get(config.sentiment.lexicon.redisKey)
+      const storedVersion = stored ? (JSON.parse(stored).version as string) : null
+
+      if (!storedVersion || compareVersions(document.version, storedVersion) > 0) {
+        await this.redis.set(config.sentiment.lexicon.redisKey, JSON.stringify(document))
+      }
+    } catch (error: any) {
+      logger.error("Failed to publish lexicon to Redis", { error: error.message, version: document.version })
+    }
+  }
+
+  private apply(document: LexiconDocument, source: "file" | "redis" | "publish"): void {
+    const previous = this.document.version
+    this.lexicon.load(document)
+    this.document = document
+    logger.info("Lexicon reloaded", { source, version: document.version, previous })
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Offline lexicon fitting
+ * Fits per-term polarity to a labeled tweet dataset (JSONL, as exported from
+ * the labeling queue) by ridge regression under the same weighted average
+ * CryptoLexicon.analyze computes, so the fitted polarities are the ones that
+ * reproduce the labels at runtime. Weights are not fitted and stay as they
+ * are. The penalty pulls each term towards its current polarity, so rarely
+ * seen terms keep the hand-picked one. CPU only, reads and writes local files.
+ *
+ *   tsx services/sentiment/lexicon-trainer.ts labels.jsonl [--lexicon path]
+ *     [--out path] [--holdout 0.2] [--l2 2] [--min-count 5] [--seed 42]
+ */
+
+import { readFileSync, writeFileSync } from "fs"
+import { extname } from "path"
+import { stringify as stringifyYaml } from "yaml"
+import { config } from "@/lib/config"
+import type { SentimentLabel } from "@/lib/types"
+import { CryptoLexicon, normalizeTerm, patternKey, type LexiconDocument, type LexiconEntry } from "./lexicon"
+import { nextMinorVersion, readLexiconFile } from "./lexicon-document"
+
+export interface TrainingExample {
+  text: string
+  label: SentimentLabel
+  polarity: number // -1 to +1
+}
+
+export interface TrainerOptions {
+  l2: number // penalty on the distance from the current polarities, in units of examples
+  minCount: number // terms matched fewer times in training are left unchanged
+  neutralBand: number // |sentiment| at or below this predicts "neutral"
+}
+
+export interface FittedTerm {
+  key: string
+  count: number
+  weight: number // unchanged
+  before: number // sentiment
+  after: number
+}
+
+export interface EvaluationReport {
+  examples: number
+  coverage: number // share of examples with at least one lexicon match
+  accuracy: number // fomo / fud / neutral
+  ece: number // expected calibration error of (sentiment + 1) / 2 against (polarity + 1) / 2
+  brier: number
+}
+
+const defaultOptions: TrainerOptions = {
+  l2: 2,
+  minCount: 5,
+  neutralBand: 0.1,
+}
+
+// Indexes of free terms with their coefficients, plus the contribution of fixed terms
+interface FeatureRow {
+  free: [number, number][]
+  offset: number
+}
+
+/**
+ * Read a JSONL dataset; lines without a usable text, label and polarity are skipped
+ */
+export function readDataset(path: string): { examples: TrainingExample[]; skipped: number } {
+  const examples: TrainingExample[] = []
+  let skipped = 0
+
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue
+
+    try {
+      const { text, label, polarity } = JSON.parse(line)
+      if (
+        typeof text === "string" &&
+        ["fomo", "fud", "neutral"].includes(label) &&
+        typeof polarity === "number" &&
+        Math.abs(polarity) <= 1
+      ) {
+        examples.push({ text, label, polarity })
+        continue
+      }
+    } catch {
+      // Counted below like any other unusable line
+    }
+    skipped++
+  }
+
+  return { examples, skipped }
+}
+
+/**
+ * Seeded shuffle and split, so a report can be reproduced
+ */
+export function splitDataset<T>(examples: T[], holdout: number, seed: number): { train: T[]; test: T[] } {
+  const random = mulberry32(seed)
+  const shuffled = [...examples]
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  const testSize = Math.round(shuffled.length * holdout)
+  return { train: shuffled.slice(testSize), test: shuffled.slice(0, testSize) }
+}
+
+/**
+ * Score held-out examples with a lexicon
+ */
+export function evaluateLexicon(
+  lexicon: CryptoLexicon,
+  examples: TrainingExample[],
+  neutralBand = defaultOptions.neutralBand,
+): EvaluationReport {
+  const bins = Array.from({ length: 10 }, () => ({ count: 0, predicted: 0, observed: 0 }))
+  let covered = 0
+  let correct = 0
+  let brier = 0
+
+  for (const example of examples) {
+    const { sentiment, confidence } = lexicon.analyze(example.text)
+    const predictedLabel: SentimentLabel =
+      sentiment > neutralBand ? "fomo" : sentiment < -neutralBand ? "fud" : "neutral"
+    const predicted = (sentiment + 1) / 2
+    const observed = (example.polarity + 1) / 2
+
+    if (confidence > 0) covered++
+    if (predictedLabel === example.label) correct++
+    brier += (predicted - observed) ** 2
+
+    const bin = bins[Math.min(Math.floor(predicted * bins.length), bins.length - 1)]
+    bin.count++
+    bin.predicted += predicted
+    bin.observed += observed
+  }
+
+  const total = examples.length || 1
+  const ece = bins.reduce((sum, bin) => sum + Math.abs(bin.predicted - bin.observed) / total, 0)
+
+  return {
+    examples: examples.length,
+    coverage: covered / total,
+    accuracy: correct / total,
+    ece,
+    brier: brier / total,
+  }
+}
+
+export class LexiconTrainer {
+  private document: LexiconDocument
+  private lexicon: CryptoLexicon
+  private options: TrainerOptions
+
+  constructor(document: LexiconDocument, options: Partial<TrainerOptions> = {}) {
+    this.document = document
+    this.lexicon = new CryptoLexicon(document)
+    this.options = { ...defaultOptions, ...options }
+  }
+
+  /**
+   * Fit the terms matched in the examples and return the updated document,
+   * versioned as the next minor version
+   */
+  fit(examples: TrainingExample[]): { document: LexiconDocument; fitted: FittedTerm[] } {
+    const entries = this.getEntries()
+    const { rows, counts } = this.extractFeatures(examples, entries)
+
+    // Only terms seen often enough are free; the rest stay as they are
+    const keys = Array.from(counts.keys()).filter(
+      (key) => entries.has(key) && counts.get(key)! >= this.options.minCount,
+    )
+    const index = new Map(keys.map((key, i) => [key, i]))
+
+    // Matches of fixed terms enter as an offset
+    const features: FeatureRow[] = rows.map((row) => {
+      const free: [number, number][] = []
+      let offset = 0
+      for (const [key, coefficient] of row) {
+        const i = index.get(key)
+        if (i !== undefined) free.push([i, coefficient])
+        else offset += coefficient * entries.get(key)!.sentiment
+      }
+      return { free, offset }
+    })
+
+    const prior = keys.map((key) => entries.get(key)!.sentiment)
+    const sentiments = this.ridge(features, examples, prior)
+
+    const fitted: FittedTerm[] = keys.map((key, i) => {
+      const entry = entries.get(key)!
+      return {
+        key,
+        count: counts.get(key)!,
+        weight: entry.weight,
+        before: entry.sentiment,
+        after: round(Math.max(-1, Math.min(1, sentiments[i]))),
+      }
+    })
+
+    const updates = new Map(fitted.map((term) => [term.key, term.after]))
+    const update = <T extends LexiconEntry>(entry: T, key: string): T =>
+      updates.has(key) ? { ...entry, sentiment: updates.get(key)! } : entry
+
+    return {
+      document: {
+        ...this.document,
+        version: nextMinorVersion(this.document.version),
+        description: `Fitted from ${examples.length} labeled tweets on top of ${this.document.version}`,
+        terms: this.document.terms.map((entry) => update(entry, normalizeTerm(entry.term))),
+        patterns: this.document.patterns.map((entry) => update(entry, patternKey(entry))),
+      },
+      fitted,
+    }
+  }
+
+  /**
+   * Per example, each matched term's coefficient in the runtime score
+   * sum(factor * weight * sentiment) / sum(weight), which is linear in the sentiments
+   */
+  private extractFeatures(
+    examples: TrainingExample[],
+    entries: Map<string, LexiconEntry>,
+  ): { rows: Map<string, number>[]; counts: Map<string, number> } {
+    const counts = new Map<string, number>()
+
+    const rows = examples.map((example) => {
+      const matches = this.lexicon.explain(example.text).filter((match) => entries.has(match.key))
+      const totalWeight = matches.reduce((sum, match) => sum + match.entry.weight, 0)
+      const row = new Map<string, number>()
+
+      for (const match of matches) {
+        const coefficient = (match.polarityFactor * match.entry.weight) / totalWeight
+        row.set(match.key, (row.get(match.key) || 0) + coefficient)
+        counts.set(match.key, (counts.get(match.key) || 0) + 1)
+      }
+      return row
+    })
+
+    return { rows, counts }
+  }
+
+  private getEntries(): Map<string, LexiconEntry> {
+    const entries = new Map<string, LexiconEntry>()
+    for (const entry of this.document.terms) entries.set(normalizeTerm(entry.term), entry)
+    for (const entry of this.document.patterns) entries.set(patternKey(entry), entry)
+    return entries
+  }
+
+  /**
+   * Minimise sum((offset + a . s - polarity)^2) + l2 * |s - prior|^2; examples
+   * without matches score 0 whatever the sentiments and drop out
+   */
+  private ridge(rows: FeatureRow[], examples: TrainingExample[], prior: number[]): number[] {
+    const size = prior.length
+    if (size === 0) return []
+
+    const normal = Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size }, (_, j) => (i === j ? this.options.l2 : 0)),
+    )
+    const target = prior.map((value) => this.options.l2 * value)
+
+    rows.forEach((row, n) => {
+      const residual = examples[n].polarity - row.offset
+      for (const [i, x] of row.free) {
+        target[i] += x * residual
+        for (const [j, y] of row.free) normal[i][j] += x * y
+      }
+    })
+
+    return solve(normal, target)
+  }
+}
+
+/**
+ * Solve A x = b for a symmetric positive definite A (Cholesky)
+ */
+function solve(a: number[][], b: number[]): number[] {
+  const size = b.length
+  const lower = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j]
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k]
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j]
+    }
+  }
+
+  const y = new Array<number>(size).fill(0)
+  for (let i = 0; i < size; i++) {
+    let sum = b[i]
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * y[k]
+    y[i] = sum / lower[i][i]
+  }
+
+  const x = new Array<number>(size).fill(0)
+  for (let i = size - 1; i >= 0; i--) {
+    let sum = y[i]
+    for (let k = i + 1; k < size; k++) sum -= lower[k][i] * x[k]
+    x[i] = sum / lower[i][i]
+  }
+
+  return x
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * `--name value` flags and positional arguments
+ */
+export function parseArgs(argv: string[]): { positional: string[]; flags: { [name: string]: string } } {
+  const positional: string[] = []
+  const flags: { [name: string]: string } = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) flags[argv[i].slice(2)] = argv[++i] ?? ""
+    else positional.push(argv[i])
+  }
+
+  return { positional, flags }
+}
+
+// Fit, compare against the current lexicon on held-out data, and write the result
+if (require.main === module) {
+  const { positional, flags } = parseArgs(process.argv.slice(2))
+  const [datasetPath] = positional
+
+  if (!datasetPath) {
+    console.error(
+      "Usage: lexicon-trainer <labels.jsonl> [--lexicon path] [--out path] " +
+        "[--holdout 0.2] [--l2 2] [--min-count 5] [--seed 42]",
+    )
+    process.exit(1)
+  }
+
+  const lexiconPath = flags.lexicon || config.sentiment.lexicon.path
+  const current = readLexiconFile(lexiconPath)
+  const { examples, skipped } = readDataset(datasetPath)
+  const { train, test } = splitDataset(
+    examples,
+    Number.parseFloat(flags.holdout || "0.2"),
+    Number.parseInt(flags.seed || "42"),
+  )
+
+  const trainer = new LexiconTrainer(current, {
+    l2: Number.parseFloat(flags.l2 || String(defaultOptions.l2)),
+    minCount: Number.parseInt(flags["min-count"] || String(defaultOptions.minCount)),
+  })
+  const { document, fitted } = trainer.fit(train)
+
+  console.log(`${examples.length} examples (${skipped} skipped): ${train.length} train, ${test.length} held out`)
+  console.log(`${fitted.length} terms fitted\n`)
+
+  for (const term of fitted.sort((a, b) => b.count - a.count)) {
+    console.log(
+      `  ${term.key.padEnd(24)} n=${String(term.count).padEnd(5)} ` +
+        `sentiment ${term.before.toFixed(3)} -> ${term.after.toFixed(3)}  weight ${term.weight.toFixed(2)}`,
+    )
+  }
+
+  const baseline = evaluateLexicon(new CryptoLexicon(current), test)
+  const candidate = evaluateLexicon(new CryptoLexicon(document), test)
+
+  console.log(`\nHeld-out ${"".padEnd(10)} ${current.version.padStart(10)} ${document.version.padStart(10)}`)
+  for (const metric of ["coverage", "accuracy", "ece", "brier"] as const) {
+    console.log(
+      `  ${metric.padEnd(16)} ${baseline[metric].toFixed(4).padStart(10)} ${candidate[metric].toFixed(4).padStart(10)}`,
+    )
+  }
+
+  const outPath = flags.out || lexiconPath.replace(/(\.\w+)?$/, `-${document.version}$1`)
+  const serialized = [".yaml", ".yml"].includes(extname(outPath).toLowerCase())
+    ? stringifyYaml(document)
+    : `${JSON.stringify(document, null, 2)}\n`
+  writeFileSync(outPath, serialized)
+  console.log(`\nWrote ${outPath} (version ${document.version})`)
+}
@@ -1,7 +1,12 @@
 /**
  * Crypto-specific sentiment lexicon with pattern matching
+ * Terms, patterns, negators and modifiers come from a versioned lexicon
+ * document (see lexicons/default.json); LexiconStore reloads it on change.
  */
 
+import { config } from "@/lib/config"
+import { readLexiconFile } from "./lexicon-document"
+
 export interface LexiconEntry {
   term: string
   sentiment: number // -1 to +1
@@ -9,116 +14,115 @@ export interface LexiconEntry {
   category: "fomo" | "fud" | "neutral" | "bullish" | "bearish"
 }
 
+// Matched against the raw text, for what tokens cannot express ("100x", "-40%")
+export interface LexiconPattern extends LexiconEntry {
+  pattern: string
+  flags?: string
+}
+
+export interface LexiconDocument {
+  version: string // semver; a higher version replaces a lower one on reload
+  description?: string
+  terms: LexiconEntry[]
+  patterns: LexiconPattern[]
+  negators: string[]
+  modifiers: { [token: string]: number } // multipliers for the next sentiment term
+  postModifiers: { [token: string]: number } // multipliers for the term before: "bullish af"
+}
+
+export interface LexiconAnalysis {
+  sentiment: number
+  confidence: number
+  fomo: number
+  fud: number
+  neutral: number
+  version: string // lexicon document version
+}
+
+/**
+ * Key a term is stored and matched under: lowercase tokens joined with single spaces
+ */
+export function normalizeTerm(term: string): string {
+  return term.toLowerCase().trim().split(/\s+/).join(" ")
+}
+
+/**
+ * Key a pattern is stored under: its source and flags, regex-literal style
+ */
+export function patternKey(pattern: Pick<LexiconPattern, "pattern" | "flags">): string {
+  return `/${pattern.pattern}/${pattern.flags || ""}`
+}
+
+export interface LexiconMatchDetail {
+  key: string // normalizeTerm of a term, patternKey of a pattern
+  entry: LexiconEntry
+  negated: boolean
+  polarityFactor: number // adjusted / base sentiment: negative when negated, above 1 when boosted
+}
+
+interface LexiconMatch {
+  entry: LexiconEntry
+  sentiment: number // after negation, modifiers and boosts
+  negated: boolean
+}
+
 export class CryptoLexicon {
-  private entries: Map<string, LexiconEntry>
-  private patterns: Array<{ regex: RegExp; entry: LexiconEntry }>
+  private entries: Map<string, LexiconEntry> // keyed by normalizeTerm
+  private maxPhraseLength = 1
+  private patterns: { regex: RegExp; entry: LexiconPattern }[]
+  private negators: Set<string>
+  private modifiers: Map<string, number>
+  private postModifiers: Map<string, number>
+  private readonly negationScope = 3 // tokens after a negator
+  private readonly negationDampening = 0.5
+  private readonly capsBoost = 1.3
+  private readonly exclamationBoost = 0.1 // per mark, up to three
+  private version = ""
 
-  constructor() {
+  constructor(document: LexiconDocument = readLexiconFile(config.sentiment.lexicon.path)) {
     this.entries = new Map()
     this.patterns = []
-    this.initializeLexicon()
+    this.negators = new Set()
+    this.modifiers = new Map()
+    this.postModifiers = new Map()
+    this.load(document)
   }
 
-  private initializeLexicon(): void {
-    const lexiconData: LexiconEntry[] = [
-      // Bullish/FOMO terms
-      { term: "moon", sentiment: 0.8, weight: 1.5, category: "fomo" },
-      { term: "pump", sentiment: 0.7, weight: 1.3, category: "bullish" },
-      { term: "bullish", sentiment: 0.8, weight: 1.4, category: "bullish" },
-      { term: "gem", sentiment: 0.9, weight: 1.6, category: "fomo" },
-      { term: "alpha", sentiment: 0.7, weight: 1.3, category: "fomo" },
-      { term: "wagmi", sentiment: 0.8, weight: 1.2, category: "fomo" },
-      { term: "lfg", sentiment: 0.9, weight: 1.4, category: "fomo" },
-      { term: "rocket", sentiment: 0.8, weight: 1.3, category: "bullish" },
-      { term: "chart_up", sentiment: 0.7, weight: 1.2, category: "bullish" },
-      { term: "diamond", sentiment: 0.6, weight: 1.1, category: "bullish" },
-      { term: "hands", sentiment: 0.6, weight: 1.1, category: "bullish" },
-      { term: "hodl", sentiment: 0.5, weight: 1.0, category: "bullish" },
-      { term: "buy", sentiment: 0.6, weight: 1.2, category: "bullish" },
-      { term: "accumulate", sentiment: 0.7, weight: 1.3, category: "bullish" },
-      { term: "breakout", sentiment: 0.8, weight: 1.4, category: "bullish" },
-
-      // Bearish/FUD terms
-      { term: "dump", sentiment: -0.8, weight: 1.5, category: "fud" },
-      { term: "crash", sentiment: -0.9, weight: 1.6, category: "fud" },
-      { term: "rekt", sentiment: -0.8, weight: 1.4, category: "fud" },
-      { term: "ngmi", sentiment: -0.7, weight: 1.3, category: "fud" },
-      { term: "rug", sentiment: -0.9, weight: 1.7, category: "fud" },
-      { term: "scam", sentiment: -0.9, weight: 1.8, category: "fud" },
-      { term: "bearish", sentiment: -0.7, weight: 1.3, category: "bearish" },
-      { term: "dip", sentiment: -0.5, weight: 1.0, category: "bearish" },
-      { term: "fud", sentiment: -0.6, weight: 1.2, category: "fud" },
-      { term: "sell", sentiment: -0.6, weight: 1.2, category: "bearish" },
-      { term: "exit liquidity", sentiment: -0.8, weight: 1.5, category: "fud" },
-      { term: "chart_down", sentiment: -0.7, weight: 1.2, category: "bearish" },
-      { term: "warning", sentiment: -0.5, weight: 1.1, category: "fud" },
-      { term: "bear", sentiment: -0.6, weight: 1.1, category: "bearish" },
-      { term: "breakdown", sentiment: -0.7, weight: 1.3, category: "bearish" },
-
-      // Neutral but relevant
-      { term: "ape", sentiment: 0.3, weight: 1.0, category: "neutral" },
-      { term: "degen", sentiment: 0.2, weight: 0.9, category: "neutral" },
-      { term: "gm", sentiment: 0.1, weight: 0.5, category: "neutral" },
-      { term: "ser", sentiment: 0.0, weight: 0.5, category: "neutral" },
-      { term: "anon", sentiment: 0.0, weight: 0.5, category: "neutral" },
-    ]
-
-    // Add to map
-    for (const entry of lexiconData) {
-      this.entries.set(entry.term.toLowerCase(), entry)
+  /**
+   * Replace the whole lexicon with a validated document
+   */
+  load(document: LexiconDocument): void {
+    this.entries = new Map()
+    this.maxPhraseLength = 1
+    for (const entry of document.terms) {
+      this.addTerm(entry)
     }
 
-    // Add pattern-based rules
-    this.patterns = [
-      {
-        regex: /to\s+the\s+moon/i,
-        entry: { term: "to the moon", sentiment: 0.9, weight: 1.5, category: "fomo" },
-      },
-      {
-        regex: /all\s+in/i,
-        entry: { term: "all in", sentiment: 0.7, weight: 1.3, category: "fomo" },
-      },
-      {
-        regex: /buy\s+the\s+dip/i,
-        entry: { term: "buy the dip", sentiment: 0.6, weight: 1.2, category: "bullish" },
-      },
-      {
-        regex: /rug\s+pull/i,
-        entry: { term: "rug pull", sentiment: -0.9, weight: 1.7, category: "fud" },
-      },
-      {
-        regex: /exit\s+scam/i,
-        entry: { term: "exit scam", sentiment: -0.9, weight: 1.8, category: "fud" },
-      },
-    ]
+    this.patterns = document.patterns.map((pattern) => ({
+      regex: new RegExp(pattern.pattern, `${(pattern.flags || "").replace(/[gu]/g, "")}gu`),
+      entry: pattern,
+    }))
+    this.negators = new Set(document.negators.map((negator) => negator.toLowerCase()))
+    this.modifiers = new Map(Object.entries(document.modifiers))
+    this.postModifiers = new Map(Object.entries(document.postModifiers))
+    this.version = document.version
   }
 
   /**
-   * Analyze text and return sentiment scores
+   * Version of the loaded lexicon document
    */
-  analyze(text: string): {
-    sentiment: number
-    confidence: number
-    fomo: number
-    fud: number
-    neutral: number
-  } {
-    const lowerText = text.toLowerCase()
-    const matches: LexiconEntry[] = []
-
-    // Check exact matches
-    for (const [term, entry] of this.entries) {
-      if (lowerText.includes(term)) {
-        matches.push(entry)
-      }
-    }
+  getVersion(): string {
+    return this.version
+  }
 
-    // Check pattern matches
-    for (const { regex, entry } of this.patterns) {
-      if (regex.test(text)) {
-        matches.push(entry)
-      }
-    }
+  /**
+   * Analyze text and return sentiment scores.
+   * Terms match whole tokens (longest phrase first); negation within the next
+   * few tokens of the same clause flips and dampens polarity, modifiers scale
+   * it, and all-caps terms and exclamation marks boost it.
+   */
+  analyze(text: string): LexiconAnalysis {
+    const matches = this.match(text)
 
     if (matches.length === 0) {
       return {
@@ -127,6 +131,7 @@ export class CryptoLexicon {
         fomo: 0,
         fud: 0,
         neutral: 1,
+        version: this.version,
       }
     }
 
@@ -138,11 +143,13 @@ export class CryptoLexicon {
     let neutralScore = 0
 
     for (const match of matches) {
-      totalSentiment += match.sentiment * match.weight
-      totalWeight += match.weight
+      totalSentiment += match.sentiment * match.entry.weight
+      totalWeight += match.entry.weight
 
-      if (match.category === "fomo") fomoScore += 1
-      else if (match.category === "fud") fudScore += 1
+      // A negated term no longer says what its category says
+      if (match.negated) neutralScore += 1
+      else if (match.entry.category === "fomo") fomoScore += 1
+      else if (match.entry.category === "fud") fudScore += 1
       else neutralScore += 1
     }
 
@@ -157,14 +164,169 @@ export class CryptoLexicon {
       fomo: total > 0 ? fomoScore / total : 0,
       fud: total > 0 ? fudScore / total : 0,
       neutral: total > 0 ? neutralScore / total : 0,
+      version: this.version,
+    }
+  }
+
+  /**
+   * The terms and patterns a text matches and how each was adjusted, for
+   * fitting and debugging
+   */
+  explain(text: string): LexiconMatchDetail[] {
+    return this.match(text).map(({ entry, sentiment, negated }) => ({
+      key: "pattern" in entry ? patternKey(entry as LexiconPattern) : normalizeTerm(entry.term),
+      entry,
+      negated,
+      polarityFactor: entry.sentiment !== 0 ? sentiment / entry.sentiment : negated ? -this.negationDampening : 1,
+    }))
+  }
+
+  /**
+   * Find lexicon terms and patterns and the adjusted sentiment of each
+   */
+  private match(text: string): LexiconMatch[] {
+    const tokens = text.match(/[\p{L}\p{N}_$']+|[.,;:!?]+/gu) || []
+    const lower = tokens.map((token) => token.toLowerCase())
+    const exclamations = this.countExclamationsPerClause(tokens)
+    const matches: LexiconMatch[] = []
+
+    let negationLeft = 0 // tokens still inside a negation scope
+    let modifier = 1
+    let clause = 0
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = lower[i]
+
+      if (/^[.,;:!?]+$/.test(token) || token === "but") {
+        // Clause boundaries end negation scopes and pending modifiers
+        negationLeft = 0
+        modifier = 1
+        if (!/^,+$/.test(token)) clause++
+        continue
+      }
+
+      const found = this.findPhrase(lower, i)
+
+      if (!found) {
+        if (this.negators.has(token)) {
+          negationLeft = this.negationScope
+        } else if (this.modifiers.has(token)) {
+          modifier *= this.modifiers.get(token)!
+        } else if (negationLeft > 0) {
+          negationLeft--
+        }
+        continue
+      }
+
+      const { entry, length } = found
+      const words = tokens.slice(i, i + length)
+      const negated = negationLeft > 0
+
+      // "not very bullish" is no stronger than "not bullish"
+      let factor = negated && modifier > 1 ? 1 : modifier
+
+      const next = lower[i + length]
+      if (next && this.postModifiers.has(next)) {
+        factor *= this.postModifiers.get(next)!
+      }
+
+      // Shouting and exclamation marks strengthen whatever is said
+      if (words.some((word) => /\p{L}{2,}/u.test(word) && word === word.toUpperCase())) {
+        factor *= this.capsBoost
+      }
+      factor *= 1 + this.exclamationBoost * Math.min(exclamations[clause] ?? 0, 3)
+
+      let sentiment = this.intensify(entry.sentiment, factor)
+      if (negated) {
+        // "not bullish" is mildly bearish rather than the opposite of bullish
+        sentiment *= -this.negationDampening
+      }
+
+      matches.push({ entry, sentiment, negated })
+
+      modifier = 1
+      negationLeft = negated ? Math.max(negationLeft - length, 0) : 0
+      i += length - 1
+    }
+
+    // Patterns are taken as written: no negation, modifiers or boosts
+    for (const { regex, entry } of this.patterns) {
+      const count = text.match(regex)?.length ?? 0
+      for (let n = 0; n < count; n++) {
+        matches.push({ entry, sentiment: entry.sentiment, negated: false })
+      }
     }
+
+    return matches
+  }
+
+  /**
+   * Scale a polarity towards (factor > 1) or away from (factor < 1) the
+   * extremes without leaving [-1, 1]: |s| -> 1 - (1 - |s|)^factor
+   */
+  private intensify(sentiment: number, factor: number): number {
+    if (factor === 1 || sentiment === 0) return sentiment
+    const magnitude = 1 - Math.pow(1 - Math.min(Math.abs(sentiment), 1), factor)
+    return Math.sign(sentiment) * magnitude
+  }
+
+  /**
+   * Longest lexicon phrase starting at a token
+   */
+  private findPhrase(tokens: string[], start: number): { entry: LexiconEntry; length: number } | null {
+    for (let length = Math.min(this.maxPhraseLength, tokens.length - start); length >= 1; length--) {
+      const entry = this.entries.get(tokens.slice(start, start + length).join(" "))
+      if (entry) return { entry, length }
+    }
+
+    // Inflected single words: dumps, crashing, rugged
+    for (const stem of this.stems(tokens[start])) {
+      const entry = this.entries.get(stem)
+      if (entry) return { entry, length: 1 }
+    }
+
+    return null
+  }
+
+  private stems(token: string): string[] {
+    const stems: string[] = []
+
+    for (const suffix of ["ing", "ed", "es", "s"]) {
+      if (token.length <= suffix.length + 2 || !token.endsWith(suffix)) continue
+      const stem = token.slice(0, -suffix.length)
+      stems.push(stem)
+      // Doubled final consonant: rugged -> rug, ripping -> rip
+      if (/([b-df-hj-np-tv-z])\1$/.test(stem)) stems.push(stem.slice(0, -1))
+    }
+
+    return stems
+  }
+
+  /**
+   * Exclamation marks in each clause, so "moon!!!" is boosted but "rug. wow!" is not
+   */
+  private countExclamationsPerClause(tokens: string[]): number[] {
+    const counts: number[] = [0]
+    let clause = 0
+
+    for (const token of tokens) {
+      if (/^[.,;:!?]+$/.test(token) || token.toLowerCase() === "but") {
+        counts[clause] += (token.match(/!/g) || []).length
+        if (!/^,+$/.test(token)) counts[++clause] = 0
+      }
+    }
+
+    return counts
   }
 
   /**
-   * Add new term to lexicon (for active learning)
+   * Add new term to lexicon (for active learning); in memory only,
+   * LexiconStore.addTerm persists it
    */
   addTerm(entry: LexiconEntry): void {
-    this.entries.set(entry.term.toLowerCase(), entry)
+    const key = normalizeTerm(entry.term)
+    this.entries.set(key, entry)
+    this.maxPhraseLength = Math.max(this.maxPhraseLength, key.split(" ").length)
   }
 
   /**
@@ -0,0 +1,25 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { compileTokenPattern, DEFAULT_TOKEN_PATTERN } from "./local-model"
+
+// Known scikit-learn tokenizations (TfidfVectorizer().build_analyzer()) under the default pattern
+const examples: { text: string; tokens: string[] }[] = [
+  { text: "güzel yükseliş çok iyi", tokens: ["güzel", "yükseliş", "çok", "iyi"] },
+  { text: "$MOOD to the moon 🚀🚀", tokens: ["mood", "to", "the", "moon"] },
+  { text: "don't panic, wagmi_2024!", tokens: ["don", "panic", "wagmi_2024"] },
+  { text: "Şimdi AL!!! düşüş bitti", tokens: ["şimdi", "al", "düşüş", "bitti"] },
+  { text: "日本語 テスト a", tokens: ["日本語", "テスト"] },
+]
+
+test("default token pattern tokenizes like scikit-learn", () => {
+  const pattern = compileTokenPattern(DEFAULT_TOKEN_PATTERN)
+
+  for (const { text, tokens } of examples) {
+    assert.deepEqual(text.toLowerCase().match(pattern) || [], tokens, text)
+  }
+})
+
+test("unsupported pattern features are rejected", () => {
+  assert.throws(() => compileTokenPattern("(?i)\\b\\w+\\b"), /inline flags/)
+  assert.throws(() => compileTokenPattern("[\\W]+"), /inside a character class/)
+})
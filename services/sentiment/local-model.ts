@@ -0,0 +1,271 @@
+/**
+ * In-process sentiment classifier
+ * Runs an exported text classifier on CPU inside the worker, for deployments
+ * without a model endpoint. The model directory holds two JSON files, shaped
+ * to be exported from a scikit-learn TfidfVectorizer and MLPClassifier:
+ *
+ *   tokenizer.json   { lowercase, pattern, ngramRange, vocabulary: { term: index }, idf? }
+ *   classifier.json  { version, labels, layers: [{ weights: [input][output], bias, activation }] }
+ *
+ * The last layer (usually with the identity activation) is followed by a
+ * softmax over the labels, which must be fomo, fud and neutral in any order.
+ *
+ * The token pattern is a Python regex. Python's \w, \b and \d match any
+ * Unicode letter or digit, JavaScript's only ASCII even with the u flag, so
+ * they are translated before compiling; inline flags other than (?u) and
+ * \W or \D inside a character class are rejected.
+ */
+
+import { readFileSync } from "fs"
+import { join, resolve } from "path"
+import { z } from "zod"
+import type { SentimentScore } from "@/lib/types"
+
+// scikit-learn's default token_pattern
+export const DEFAULT_TOKEN_PATTERN = "(?u)\\b\\w\\w+\\b"
+
+// Python word characters: letters, digits and the underscore
+const WORD = "\\p{L}\\p{N}_"
+
+const tokenizerSchema = z.object({
+  lowercase: z.boolean().default(true),
+  pattern: z.string().default(DEFAULT_TOKEN_PATTERN),
+  ngramRange: z.tuple([z.number().int().positive(), z.number().int().positive()]).default([1, 1]),
+  vocabulary: z.record(z.number().int().nonnegative()),
+  idf: z.array(z.number()).optional(), // without it, features are binary
+})
+
+const layerSchema = z.object({
+  weights: z.array(z.array(z.number())).min(1),
+  bias: z.array(z.number()).min(1),
+  activation: z.enum(["relu", "tanh", "logistic", "identity"]).default("relu"),
+})
+
+const classifierSchema = z.object({
+  version: z.string().default("unknown"),
+  labels: z.array(z.enum(["fomo", "fud", "neutral"])).length(3),
+  layers: z.array(layerSchema).min(1),
+})
+
+export type TokenizerConfig = z.infer<typeof tokenizerSchema>
+export type ClassifierConfig = z.infer<typeof classifierSchema>
+
+export class LocalSentimentModel {
+  private tokenizer: TokenizerConfig
+  private classifier: ClassifierConfig
+  private tokenPattern: RegExp
+
+  constructor(tokenizer: TokenizerConfig, classifier: ClassifierConfig) {
+    this.tokenizer = tokenizer
+    this.classifier = classifier
+    this.tokenPattern = compileTokenPattern(tokenizer.pattern)
+    this.checkShapes()
+  }
+
+  getVersion(): string {
+    return this.classifier.version
+  }
+
+  /**
+   * Score texts; synchronous CPU work, in the same shape as the remote model
+   */
+  predictBatch(texts: string[]): SentimentScore[] {
+    return texts.map((text) => this.toScore(this.classify(text)))
+  }
+
+  /**
+   * Label probabilities for a text
+   */
+  classify(text: string): SentimentScore["labels"] {
+    const probabilities = softmax(this.forward(this.vectorize(text)))
+    const result: SentimentScore["labels"] = { fomo: 0, fud: 0, neutral: 0 }
+
+    this.classifier.labels.forEach((label, i) => {
+      result[label] = probabilities[i]
+    })
+
+    return result
+  }
+
+  /**
+   * Sparse TF-IDF (or binary) features, L2-normalised like scikit-learn's default
+   */
+  private vectorize(text: string): Map<number, number> {
+    const { lowercase, ngramRange, vocabulary, idf } = this.tokenizer
+    const tokens = (lowercase ? text.toLowerCase() : text).match(this.tokenPattern) || []
+    const counts = new Map<number, number>()
+
+    for (let n = ngramRange[0]; n <= ngramRange[1]; n++) {
+      for (let i = 0; i + n <= tokens.length; i++) {
+        const index = vocabulary[tokens.slice(i, i + n).join(" ")]
+        if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1)
+      }
+    }
+
+    const features = new Map<number, number>()
+    for (const [index, count] of counts) {
+      features.set(index, idf ? count * idf[index] : 1)
+    }
+
+    const norm = Math.sqrt(Array.from(features.values()).reduce((sum, value) => sum + value * value, 0))
+    if (norm > 0) {
+      for (const [index, value] of features) features.set(index, value / norm)
+    }
+
+    return features
+  }
+
+  private forward(features: Map<number, number>): number[] {
+    const [first, ...rest] = this.classifier.layers
+
+    // The input is sparse, so the first layer only visits rows of present features
+    let values = [...first.bias]
+    for (const [index, value] of features) {
+      const row = first.weights[index]
+      for (let j = 0; j < values.length; j++) values[j] += value * row[j]
+    }
+    values = activate(values, first.activation)
+
+    for (const layer of rest) {
+      const next = [...layer.bias]
+      values.forEach((value, i) => {
+        const row = layer.weights[i]
+        for (let j = 0; j < next.length; j++) next[j] += value * row[j]
+      })
+      values = activate(next, layer.activation)
+    }
+
+    return values
+  }
+
+  private toScore(probabilities: SentimentScore["labels"]): SentimentScore {
+    const values = Object.values(probabilities)
+    const entropy = -values.reduce((sum, p) => sum + (p > 0 ? p * Math.log(p) : 0), 0)
+
+    return {
+      value: probabilities.fomo - probabilities.fud,
+      confidence: Math.max(...values),
+      volatility: entropy / Math.log(values.length), // how split the model is between labels
+      labels: { ...probabilities },
+      timestamp: new Date(),
+    }
+  }
+
+  /**
+   * Fail at load time rather than on the first tweet when the exported files do not fit together
+   */
+  private checkShapes(): void {
+    const { labels, layers } = this.classifier
+    const { vocabulary, idf } = this.tokenizer
+    let inputSize = Object.values(vocabulary).reduce((max, index) => Math.max(max, index + 1), 0)
+
+    if (new Set(labels).size !== labels.length) {
+      throw new Error("Classifier labels must be fomo, fud and neutral")
+    }
+    if (idf && idf.length !== inputSize) {
+      throw new Error(`Tokenizer idf has ${idf.length} entries for a vocabulary of ${inputSize}`)
+    }
+
+    layers.forEach((layer, i) => {
+      if (layer.weights.length !== inputSize) {
+        throw new Error(`Layer ${i} expects ${layer.weights.length} inputs, got ${inputSize}`)
+      }
+      if (layer.weights.some((row) => row.length !== layer.bias.length)) {
+        throw new Error(`Layer ${i} weights do not match its ${layer.bias.length} outputs`)
+      }
+      inputSize = layer.bias.length
+    })
+
+    if (inputSize !== labels.length) {
+      throw new Error(`Last layer has ${inputSize} outputs for ${labels.length} labels`)
+    }
+  }
+}
+
+/**
+ * Compile a Python token pattern into a global Unicode RegExp with the same matches
+ */
+export function compileTokenPattern(pattern: string): RegExp {
+  const inlineFlags = pattern.match(/^\(\?([a-zA-Z]+)\)/)
+  if (inlineFlags && inlineFlags[1] !== "u") {
+    throw new Error(`Unsupported inline flags (?${inlineFlags[1]}) in token pattern`)
+  }
+
+  const source = inlineFlags ? pattern.slice(inlineFlags[0].length) : pattern
+  const boundary = `(?:(?<=[${WORD}])(?![${WORD}])|(?<![${WORD}])(?=[${WORD}]))`
+  const nonBoundary = `(?:(?<=[${WORD}])(?=[${WORD}])|(?<![${WORD}])(?![${WORD}]))`
+  let translated = ""
+  let inClass = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (char === "\\" && i + 1 < source.length) {
+      const escaped = source[++i]
+
+      if (inClass) {
+        if (escaped === "W" || escaped === "D") {
+          throw new Error(`Unsupported \\${escaped} inside a character class in token pattern`)
+        }
+        translated += escaped === "w" ? WORD : escaped === "d" ? "\\p{Nd}" : `\\${escaped}`
+        continue
+      }
+
+      const replacements: Record<string, string> = {
+        w: `[${WORD}]`,
+        W: `[^${WORD}]`,
+        d: "\\p{Nd}",
+        D: "\\P{Nd}",
+        b: boundary,
+        B: nonBoundary,
+      }
+      translated += replacements[escaped] ?? `\\${escaped}`
+      continue
+    }
+
+    if (char === "[" && !inClass) inClass = true
+    else if (char === "]" && inClass && source[i - 1] !== "[" && source.slice(i - 2, i) !== "[^") inClass = false
+    translated += char
+  }
+
+  return new RegExp(translated, "gu")
+}
+
+/**
+ * Load tokenizer.json and classifier.json from a directory, relative to the working directory
+ */
+export function loadLocalModel(directory: string): LocalSentimentModel {
+  const read = <T>(file: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T => {
+    const result = schema.safeParse(JSON.parse(readFileSync(join(resolve(process.cwd(), directory), file), "utf-8")))
+
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      throw new Error(`Invalid ${file}: ${issues.join("; ")}`)
+    }
+
+    return result.data
+  }
+
+  return new LocalSentimentModel(read("tokenizer.json", tokenizerSchema), read("classifier.json", classifierSchema))
+}
+
+function activate(values: number[], activation: ClassifierConfig["layers"][number]["activation"]): number[] {
+  switch (activation) {
+    case "relu":
+      return values.map((value) => Math.max(0, value))
+    case "tanh":
+      return values.map(Math.tanh)
+    case "logistic":
+      return values.map((value) => 1 / (1 + Math.exp(-value)))
+    default:
+      return values
+  }
+}
+
+function softmax(values: number[]): number[] {
+  const max = Math.max(...values)
+  const exps = values.map((value) => Math.exp(value - max))
+  const sum = exps.reduce((total, value) => total + value, 0)
+  return exps.map((value) => value / sum)
+}
+
@@ -1,92 +1,297 @@
 /**
  * Client for sentiment analysis model inference
- * Supports both local and remote model endpoints
+ * Runs the model behind a remote endpoint or in-process (see local-model.ts),
+ * as configured. Remote requests have a deadline and bounded retries; a circuit
+ * breaker fed by errors and health checks falls back to heuristics at once
+ * while the endpoint is down.
  */
 
 import axios, { type AxiosInstance } from "axios"
+import Redis from "ioredis"
+import { z } from "zod"
 import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
+import { CircuitBreaker, type CircuitState } from "@/lib/utils/circuit-breaker"
 import type { SentimentScore } from "@/lib/types"
+import { loadLocalModel, type LocalSentimentModel } from "./local-model"
+
+// Tweets scored by the model, and by the fallback with the reason
+export type ModelCounter = "model" | "fallback" | "fallbackUnconfigured" | "fallbackOpen" | "fallbackError" | "retries"
+
+// One prediction as the endpoint returns it; anything else fails the whole request
+const predictionSchema = z.object({
+  sentiment: z.number().finite().min(-1).max(1),
+  confidence: z.number().finite().min(0).max(1),
+  volatility: z.number().finite().optional(),
+  labels: z
+    .object({
+      fomo: z.number().finite().optional(),
+      fud: z.number().finite().optional(),
+      neutral: z.number().finite().optional(),
+    })
+    .optional(),
+})
 
 export class SentimentModelClient {
   private client: AxiosInstance | null = null
+  private localModel: LocalSentimentModel | null = null
   private batchSize: number
+  private breaker: CircuitBreaker
+  private redis: Redis
+  private healthTimer: NodeJS.Timeout | null = null
+  private counts: Record<ModelCounter, number> = {
+    model: 0,
+    fallback: 0,
+    fallbackUnconfigured: 0,
+    fallbackOpen: 0,
+    fallbackError: 0,
+    retries: 0,
+  }
+  private readonly metricsKey = "metrics:sentiment:model"
 
   constructor() {
     this.batchSize = config.sentiment.batchSize
+    this.redis = new Redis()
+    this.breaker = new CircuitBreaker("sentiment-model", config.sentiment.model.breaker, (state) =>
+      this.recordState(state),
+    )
 
-    if (config.sentiment.modelEndpoint) {
+    if (config.sentiment.model.backend === "local") {
+      this.localModel = this.loadLocalModel()
+    } else if (config.sentiment.modelEndpoint) {
       this.client = axios.create({
         baseURL: config.sentiment.modelEndpoint,
-        timeout: 30000,
         headers: {
           "Content-Type": "application/json",
         },
       })
+    } else {
+      logger.warn("Model endpoint not configured, using fallback for every tweet")
     }
   }
 
+  /**
+   * Check health now and periodically; failed checks open the circuit
+   */
+  async start(): Promise<void> {
+    if (!this.client || this.healthTimer) return
+
+    this.breaker.recordHealth(await this.healthCheck())
+    this.healthTimer = setInterval(async () => {
+      this.breaker.recordHealth(await this.healthCheck())
+    }, config.sentiment.model.healthCheckIntervalMs)
+  }
+
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer)
+      this.healthTimer = null
+    }
+  }
+
+  getCircuitState(): CircuitState {
+    return this.breaker.getState()
+  }
+
+  /**
+   * Tweets scored by the model and by the fallback since this client started
+   */
+  getCounts(): Record<ModelCounter, number> {
+    return { ...this.counts }
+  }
+
   /**
    * Predict sentiment for a single text
    */
   async predict(text: string): Promise<SentimentScore> {
-    if (!this.client) {
-      logger.warn("Model endpoint not configured, using fallback")
+    if (this.localModel) {
+      return this.predictLocal([text])[0]
+    }
+
+    const data = await this.call(
+      "/predict",
+      { text },
+      config.sentiment.model.deadlineMs,
+      1,
+      (data) => predictionSchema.safeParse(data).success,
+    )
+    if (!data) {
       return this.fallbackPredict(text)
     }
 
-    try {
-      const response = await this.client.post("/predict", {
-        text,
-      })
+    return this.toScore(data)
+  }
 
-      return {
-        value: response.data.sentiment,
-        confidence: response.data.confidence,
-        volatility: response.data.volatility || 0,
-        labels: {
-          fomo: response.data.labels?.fomo || 0,
-          fud: response.data.labels?.fud || 0,
-          neutral: response.data.labels?.neutral || 0,
-        },
-        timestamp: new Date(),
+  /**
+   * Batch prediction for multiple texts, in requests of at most batchSize texts
+   */
+  async predictBatch(texts: string[]): Promise<SentimentScore[]> {
+    if (this.localModel) {
+      return this.predictLocal(texts)
+    }
+
+    const scores: SentimentScore[] = []
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const chunk = texts.slice(start, start + this.batchSize)
+      const data = await this.call(
+        "/predict_batch",
+        { texts: chunk },
+        config.sentiment.model.batchDeadlineMs,
+        chunk.length,
+        (data) => z.array(predictionSchema).length(chunk.length).safeParse(data?.predictions).success,
+      )
+
+      if (data) {
+        scores.push(...data.predictions.map((pred: any) => this.toScore(pred)))
+      } else {
+        scores.push(...chunk.map((text) => this.fallbackPredict(text)))
       }
+    }
+
+    return scores
+  }
+
+  /**
+   * In-process prediction; a text the model fails on falls back on its own
+   */
+  private predictLocal(texts: string[]): SentimentScore[] {
+    let failed = 0
+
+    const scores = texts.map((text) => {
+      try {
+        return this.localModel!.predictBatch([text])[0]
+      } catch (error: any) {
+        logger.warn("Local model prediction failed, using fallback", { error: error.message })
+        failed++
+        return this.fallbackPredict(text)
+      }
+    })
+
+    this.count({ model: texts.length - failed, fallback: failed, fallbackError: failed })
+    return scores
+  }
+
+  private loadLocalModel(): LocalSentimentModel | null {
+    const { localPath } = config.sentiment.model
+
+    try {
+      const model = loadLocalModel(localPath)
+      logger.info("Local sentiment model loaded", { path: localPath, version: model.getVersion() })
+      return model
     } catch (error: any) {
-      logger.error("Model prediction failed", { error: error.message })
-      return this.fallbackPredict(text)
+      logger.error("Failed to load local sentiment model, using fallback for every tweet", {
+        error: error.message,
+        path: localPath,
+      })
+      return null
     }
   }
 
   /**
-   * Batch prediction for multiple texts
+   * Response data from the model, or null when the caller should use the fallback
    */
-  async predictBatch(texts: string[]): Promise<SentimentScore[]> {
+  private async call(
+    path: string,
+    body: object,
+    deadlineMs: number,
+    texts: number,
+    isValid: (data: any) => boolean,
+  ): Promise<any | null> {
     if (!this.client) {
-      return texts.map((text) => this.fallbackPredict(text))
+      this.count({ fallback: texts, fallbackUnconfigured: texts })
+      return null
     }
 
-    try {
-      const response = await this.client.post("/predict_batch", {
-        texts,
-      })
+    // An open circuit answers at once instead of waiting for another timeout
+    if (!this.breaker.allowRequest()) {
+      this.count({ fallback: texts, fallbackOpen: texts })
+      return null
+    }
 
-      return response.data.predictions.map((pred: any) => ({
-        value: pred.sentiment,
-        confidence: pred.confidence,
-        volatility: pred.volatility || 0,
-        labels: {
-          fomo: pred.labels?.fomo || 0,
-          fud: pred.labels?.fud || 0,
-          neutral: pred.labels?.neutral || 0,
-        },
-        timestamp: new Date(),
-      }))
+    try {
+      const data = await this.postWithRetries(path, body, Date.now() + deadlineMs)
+      if (!isValid(data)) {
+        // An endpoint answering garbage is as broken as one that does not answer
+        this.breaker.recordFailure()
+        logger.warn("Malformed model response, using fallback", { path, texts })
+        this.count({ fallback: texts, fallbackError: texts })
+        return null
+      }
+      this.breaker.recordSuccess()
+      this.count({ model: texts })
+      return data
     } catch (error: any) {
-      logger.error("Batch prediction failed", { error: error.message })
-      return texts.map((text) => this.fallbackPredict(text))
+      // A rejected request means the endpoint is up; only outages count against the circuit
+      if (isOutage(error)) {
+        this.breaker.recordFailure()
+      } else {
+        this.breaker.recordSuccess()
+      }
+      logger.warn("Model prediction failed, using fallback", { error: error.message, path, texts })
+      this.count({ fallback: texts, fallbackError: texts })
+      return null
     }
   }
 
+  /**
+   * POST with bounded, jittered retries that all fit within the deadline
+   */
+  private async postWithRetries(path: string, body: object, deadline: number): Promise<any> {
+    const { maxRetries, retryBaseDelayMs, retryMaxDelayMs } = config.sentiment.model
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client!.post(path, body, { timeout: Math.max(1, deadline - Date.now()) })
+        return response.data
+      } catch (error: any) {
+        const delay = Math.random() * Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt)
+        if (attempt >= maxRetries || !isOutage(error) || Date.now() + delay >= deadline) {
+          throw error
+        }
+
+        this.count({ retries: 1 })
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  private toScore(data: any): SentimentScore {
+    return {
+      value: data.sentiment,
+      confidence: data.confidence,
+      volatility: data.volatility || 0,
+      labels: {
+        fomo: data.labels?.fomo || 0,
+        fud: data.labels?.fud || 0,
+        neutral: data.labels?.neutral || 0,
+      },
+      timestamp: new Date(),
+    }
+  }
+
+  /**
+   * Add to the running counters, locally and in Redis
+   */
+  private count(counts: Partial<Record<ModelCounter, number>>): void {
+    const pipeline = this.redis.pipeline()
+    for (const [field, value] of Object.entries(counts) as [ModelCounter, number][]) {
+      if (!value) continue
+      this.counts[field] += value
+      pipeline.hincrby(this.metricsKey, field, value)
+    }
+
+    pipeline.exec().catch((error: any) => {
+      logger.error("Failed to record model metrics", { error: error.message })
+    })
+  }
+
+  private recordState(state: CircuitState): void {
+    this.redis.hset(this.metricsKey, { state, stateChangedAt: Date.now() }).catch((error: any) => {
+      logger.error("Failed to record circuit state", { error: error.message })
+    })
+  }
+
   /**
    * Fallback prediction using simple heuristics
    */
@@ -124,13 +329,25 @@ export class SentimentModelClient {
    * Health check for model endpoint
    */
   async healthCheck(): Promise<boolean> {
+    if (this.localModel) return true
     if (!this.client) return false
 
     try {
-      const response = await this.client.get("/health")
+      const response = await this.client.get("/health", { timeout: config.sentiment.model.deadlineMs })
       return response.status === 200
     } catch {
       return false
     }
   }
 }
+
+/**
+ * Timeouts, connection errors, 5xx and 429 are worth retrying; other errors
+ * would fail the same way again
+ */
+function isOutage(error: any): boolean {
+  if (!axios.isAxiosError(error)) return false
+  if (!error.response) return true
+
+  return error.response.status >= 500 || error.response.status === 429
+}
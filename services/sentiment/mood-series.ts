@@ -0,0 +1,70 @@
+/**
+ * Smoothed mood series with its own z-score history
+ * One instance tracks the overall mood; the aggregator keeps further ones
+ * per topic bucket and per tracked token.
+ */
+
+import { ExponentialMovingAverage, calculateZScore, calculateMean, calculateStdDev } from "@/lib/utils/math"
+import { config } from "@/lib/config"
+
+export interface MoodPoint {
+  rawScore: number
+  zScore: number
+  ema5: number
+  ema15: number
+  ema60: number
+}
+
+export class MoodSeries {
+  private ema5: ExponentialMovingAverage
+  private ema15: ExponentialMovingAverage
+  private ema60: ExponentialMovingAverage
+  private historicalScores: number[] = []
+  private maxHistorySize = 1000
+  private last: MoodPoint = { rawScore: 0, zScore: 0, ema5: 0, ema15: 0, ema60: 0 }
+
+  constructor() {
+    this.ema5 = new ExponentialMovingAverage(config.policy.emaShort)
+    this.ema15 = new ExponentialMovingAverage(config.policy.emaMedium)
+    this.ema60 = new ExponentialMovingAverage(config.policy.emaLong)
+  }
+
+  /**
+   * Add a batch score and return the updated point
+   */
+  add(rawScore: number): MoodPoint {
+    // Update EMAs
+    const ema5 = this.ema5.add(rawScore)
+    const ema15 = this.ema15.add(rawScore)
+    const ema60 = this.ema60.add(rawScore)
+
+    // Store in history for z-score calculation
+    this.historicalScores.push(rawScore)
+    if (this.historicalScores.length > this.maxHistorySize) {
+      this.historicalScores.shift()
+    }
+
+    // Calculate z-score
+    const mean = calculateMean(this.historicalScores)
+    const stdDev = calculateStdDev(this.historicalScores)
+    const zScore = calculateZScore(rawScore, mean, stdDev)
+
+    this.last = { rawScore, zScore, ema5, ema15, ema60 }
+    return this.last
+  }
+
+  /**
+   * Latest point, for batches that leave the series unchanged
+   */
+  getLast(): MoodPoint {
+    return { ...this.last }
+  }
+
+  reset(): void {
+    this.ema5.reset()
+    this.ema15.reset()
+    this.ema60.reset()
+    this.historicalScores = []
+    this.last = { rawScore: 0, zScore: 0, ema5: 0, ema15: 0, ema60: 0 }
+  }
+}
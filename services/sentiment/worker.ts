@@ -2,34 +2,60 @@
  * Sentiment analysis worker - processes tweets from queue
  */
 
-import { TweetQueue } from "../ingestion/queue"
+import { TweetQueue, type QueueMessage } from "../ingestion/queue"
 import { CryptoLexicon } from "./lexicon"
+import { LexiconStore } from "./lexicon-store"
 import { SentimentModelClient } from "./model-client"
 import { SentimentAggregator } from "./aggregator"
+import { ContextScorer } from "./context-scorer"
+import { createCombiner, type SentimentCombiner } from "./combiner"
+import { LabelingQueue, type TextScores } from "./labeling-queue"
 import { TweetPreprocessor } from "../ingestion/preprocessor"
+import { AuthorStore } from "../ingestion/author-store"
+import { CampaignClusterStore } from "../ingestion/campaign-clusters"
+import { TwitterClient } from "../ingestion/twitter-client"
+import { config } from "@/lib/config"
 import { logger } from "@/lib/logger"
-import type { ProcessedTweet, AggregatedMood } from "@/lib/types"
+import { ConcurrencyLimiter } from "@/lib/utils/concurrency-limiter"
+import fixtures from "./fixtures/lexicon-regression.json"
+import type { ProcessedTweet, AggregatedMood, SentimentScore } from "@/lib/types"
 import Redis from "ioredis"
 
 class SentimentWorker {
   private queue: TweetQueue
   private lexicon: CryptoLexicon
+  private lexiconStore: LexiconStore
   private modelClient: SentimentModelClient
   private aggregator: SentimentAggregator
+  private contextScorer: ContextScorer
+  private combiner: SentimentCombiner
+  private labelingQueue: LabelingQueue
   private preprocessor: TweetPreprocessor
+  private authorStore: AuthorStore
+  private clusterStore: CampaignClusterStore
   private redis: Redis
+  private limiter: ConcurrencyLimiter
   private isRunning = false
   private batchBuffer: ProcessedTweet[] = []
+  private batchMessages: QueueMessage[] = [] // acked once their batch is stored
   private batchSize = 50
   private batchTimeoutMs = 30000 // 30 seconds
 
   constructor() {
     this.queue = new TweetQueue()
     this.lexicon = new CryptoLexicon()
+    this.lexiconStore = new LexiconStore(this.lexicon)
     this.modelClient = new SentimentModelClient()
     this.aggregator = new SentimentAggregator()
+    this.contextScorer = new ContextScorer()
+    this.combiner = createCombiner()
+    this.labelingQueue = new LabelingQueue()
     this.preprocessor = new TweetPreprocessor()
+    // Lazy profile lookups need X credentials; otherwise only cached profiles are used
+    this.authorStore = config.twitter.bearerToken ? new TwitterClient().authors : new AuthorStore()
+    this.clusterStore = new CampaignClusterStore()
     this.redis = new Redis()
+    this.limiter = new ConcurrencyLimiter(config.sentiment.microBatch.concurrency)
   }
 
   /**
@@ -39,26 +65,35 @@ class SentimentWorker {
     logger.info("Starting sentiment worker")
     this.isRunning = true
 
-    // Check model health
-    const modelHealthy = await this.modelClient.healthCheck()
-    logger.info("Model health check", { healthy: modelHealthy })
+    // Check model health; an unreachable endpoint starts with an open circuit
+    await this.modelClient.start()
+    logger.info("Model health check", { circuit: this.modelClient.getCircuitState() })
 
-    // Start batch aggregation timer
+    // Hot-reload lexicon edits from the file and from Redis
+    await this.lexiconStore.start()
+    logger.info("Lexicon loaded", { version: this.lexicon.getVersion() })
+    logger.info("Sentiment combiner", { combiner: this.combiner.name })
+
+    // Start batch aggregation and redelivery timers
     this.startBatchTimer()
+    this.startRequeueTimer()
 
     // Main processing loop
     while (this.isRunning) {
       try {
-        const tweet = await this.queue.dequeue()
+        const messages = await this.queue.dequeueMany(config.sentiment.batchSize, config.sentiment.microBatch.maxWaitMs)
 
-        if (tweet) {
-          await this.processTweet(tweet)
+        if (messages.length > 0) {
+          // Only waits for a free slot, so the next micro-batch is collected while this one is scored
+          await this.limiter.schedule(() => this.processMicroBatch(messages))
         }
       } catch (error: any) {
         logger.error("Processing error", { error: error.message })
         await this.sleep(1000)
       }
     }
+
+    await this.limiter.drain()
   }
 
   /**
@@ -67,47 +102,108 @@ class SentimentWorker {
   stop(): void {
     logger.info("Stopping sentiment worker")
     this.isRunning = false
+    this.lexiconStore.stop()
+    this.modelClient.stop()
   }
 
   /**
-   * Process a single tweet
+   * Score a micro-batch with one model call for the tweets and one for what
+   * they quote or reply to, then finish each tweet on its own
    */
-  private async processTweet(tweet: any): Promise<void> {
+  private async processMicroBatch(messages: QueueMessage[]): Promise<void> {
     const startTime = Date.now()
+    let ownScores: TextScores[]
+    let contextScores: SentimentScore[][]
 
     try {
-      // Lexicon-based analysis
-      const lexiconResult = this.lexicon.analyze(tweet.text)
-
-      // Model-based analysis (if available)
-      const modelResult = await this.modelClient.predict(tweet.text)
-
-      // Combine lexicon and model results
-      const combinedSentiment = {
-        value: lexiconResult.sentiment * 0.3 + modelResult.value * 0.7,
-        confidence: Math.max(lexiconResult.confidence, modelResult.confidence),
-        volatility: modelResult.volatility,
-        labels: {
-          fomo: (lexiconResult.fomo + modelResult.labels.fomo) / 2,
-          fud: (lexiconResult.fud + modelResult.labels.fud) / 2,
-          neutral: (lexiconResult.neutral + modelResult.labels.neutral) / 2,
-        },
-        timestamp: new Date(),
+      ownScores = await this.scoreTexts(messages.map((message) => message.tweet.text))
+
+      // Quotes and replies are read against what they respond to
+      const references = messages.map((message, i) => {
+        const referenced = message.tweet.referencedTweets || []
+        return this.contextScorer.getContextWeight(ownScores[i].combined, referenced) > 0 ? referenced : []
+      })
+      const referenceScores = await this.scoreTexts(references.flat().map((reference) => reference.text))
+
+      let offset = 0
+      contextScores = references.map((referenced) => {
+        offset += referenced.length
+        return referenceScores.slice(offset - referenced.length, offset).map((scores) => scores.combined)
+      })
+    } catch (error: any) {
+      // The model falls back on its own, so this is unexpected; every tweet is retried
+      logger.error("Failed to score micro-batch", { error: error.message, tweets: messages.length })
+      await Promise.all(messages.map((message) => this.queue.nack(message, error.message)))
+      return
+    }
+
+    for (const [i, message] of messages.entries()) {
+      await this.processTweet(message, ownScores[i], contextScores[i])
+    }
+
+    logger.debug("Micro-batch processed", { tweets: messages.length, duration: Date.now() - startTime })
+  }
+
+  /**
+   * Process a single scored tweet
+   */
+  private async processTweet(
+    message: QueueMessage,
+    ownScores: TextScores,
+    contextScores: SentimentScore[],
+  ): Promise<void> {
+    const startTime = Date.now()
+    const tweet = message.tweet
+
+    try {
+      const ownSentiment = ownScores.combined
+      const references = tweet.referencedTweets || []
+      const { sentiment: combinedSentiment, contextWeight } = this.contextScorer.blend(
+        ownSentiment,
+        references,
+        contextScores,
+      )
+
+      // Tweets the scorers are unsure about, or disagree on, are worth a manual label
+      await this.labelingQueue.consider(tweet, ownScores)
+
+      // Calculate author weight from the stored profile
+      await this.authorStore.recordTweet(tweet.authorId, tweet.id, new Date(tweet.createdAt))
+      const author = await this.authorStore.get(tweet.authorId)
+      const authorWeight = this.preprocessor.calculateAuthorWeight(tweet, author)
+
+      // Bot likelihood from text, account and posting cadence; on the text as
+      // posted, since cleaning rewrites mentions and links
+      const bot = this.preprocessor.scoreBot({ ...tweet, text: tweet.rawText ?? tweet.text }, author)
+      if (bot.probability >= config.ingestion.bots.threshold) {
+        logger.debug("Likely bot", { tweetId: tweet.id, botScore: bot.probability, reasons: bot.reasons })
       }
 
-      // Calculate author weight
-      const authorWeight = this.preprocessor.calculateAuthorWeight(tweet)
+      // Near-duplicate cluster for campaign detection
+      const fingerprint = this.preprocessor.fingerprint(tweet.text, config.sentiment.duplicates.minTokens)
+      const cluster = await this.clusterStore.assign(tweet.id, fingerprint)
+
+      const language = this.preprocessor.detectLanguage(tweet.text, tweet.lang)
 
       const processedTweet: ProcessedTweet = {
         ...tweet,
         sentiment: combinedSentiment,
-        language: this.preprocessor.detectLanguage(tweet.text),
-        isBot: this.preprocessor.detectBot(tweet),
+        language: language.language,
+        languageConfidence: language.confidence,
+        isBot: bot.probability >= config.ingestion.bots.threshold,
+        botScore: bot.probability,
         authorWeight,
+        clusterId: cluster.clusterId,
+        clusterSize: cluster.clusterSize,
+        contextWeight,
+        disputed: (ownSentiment.disagreement ?? 0) >= config.sentiment.combiner.disagreementThreshold,
+        // Tweets queued before extraction existed lost their links in cleaning
+        tokens: tweet.tokens ?? this.preprocessor.extractTokens(tweet),
       }
 
       // Add to batch buffer
       this.batchBuffer.push(processedTweet)
+      this.batchMessages.push(message)
 
       // Process batch if full
       if (this.batchBuffer.length >= this.batchSize) {
@@ -124,33 +220,59 @@ class SentimentWorker {
       logger.error("Failed to process tweet", {
         error: error.message,
         tweetId: tweet.id,
+        attempts: message.attempts,
       })
+      await this.queue.nack(message, error.message)
     }
   }
 
+  /**
+   * Combined lexicon and model sentiment for each text, with the parts it was made of
+   */
+  private async scoreTexts(texts: string[]): Promise<TextScores[]> {
+    if (texts.length === 0) return []
+
+    // Model-based analysis (if available), in requests of up to batchSize texts
+    const modelResults = await this.modelClient.predictBatch(texts)
+
+    return texts.map((text, i) => {
+      const lexicon = this.lexicon.analyze(text)
+      return { combined: this.combiner.combine(lexicon, modelResults[i]), lexicon, model: modelResults[i] }
+    })
+  }
+
   /**
    * Process batch of tweets and aggregate
    */
   private async processBatch(): Promise<void> {
     if (this.batchBuffer.length === 0) return
 
+    // Take the batch so tweets arriving meanwhile go into the next one
+    const tweets = this.batchBuffer
+    const messages = this.batchMessages
+    this.batchBuffer = []
+    this.batchMessages = []
+
     try {
       // Aggregate sentiment
-      const mood = this.aggregator.aggregate(this.batchBuffer)
+      const mood = this.aggregator.aggregate(tweets)
 
       // Store aggregated mood
       await this.storeMood(mood)
 
+      // Only now are the tweets safely accounted for
+      await Promise.all(messages.map((message) => this.queue.ack(message)))
+
       logger.info("Batch processed", {
-        tweets: this.batchBuffer.length,
+        tweets: tweets.length,
         rawScore: mood.rawScore.toFixed(3),
         zScore: mood.zScore.toFixed(3),
+        lexiconVersions: mood.lexiconVersions,
+        disputedShare: mood.disputedShare.toFixed(3),
       })
-
-      // Clear buffer
-      this.batchBuffer = []
     } catch (error: any) {
-      logger.error("Batch processing failed", { error: error.message })
+      // Unacked tweets are redelivered once their visibility timeout expires
+      logger.error("Batch processing failed", { error: error.message, tweets: tweets.length })
     }
   }
 
@@ -170,6 +292,7 @@ class SentimentWorker {
       await this.redis.zadd("mood:timeline", mood.timestamp.getTime(), key)
     } catch (error: any) {
       logger.error("Failed to store mood", { error: error.message })
+      throw error
     }
   }
 
@@ -184,29 +307,91 @@ class SentimentWorker {
     }, this.batchTimeoutMs)
   }
 
+  /**
+   * Start timer that requeues tweets whose visibility timeout expired
+   */
+  private startRequeueTimer(): void {
+    setInterval(() => {
+      this.queue.requeueExpired()
+    }, config.ingestion.queue.visibilityTimeoutMs / 4)
+  }
+
+  /**
+   * Score `count` sample texts one request per tweet, then in micro-batches,
+   * and log the throughput of each. Only the model metrics are written.
+   */
+  async benchmark(count: number): Promise<void> {
+    const texts = Array.from({ length: count }, (_, i) => fixtures[i % fixtures.length].text)
+    await this.modelClient.start()
+
+    const run = async (name: string, batchSize: number, concurrency: number) => {
+      const limiter = new ConcurrencyLimiter(concurrency)
+      const before = this.modelClient.getCounts()
+      const startTime = Date.now()
+
+      for (let start = 0; start < texts.length; start += batchSize) {
+        await limiter.schedule(async () => {
+          await this.scoreTexts(texts.slice(start, start + batchSize))
+        })
+      }
+      await limiter.drain()
+
+      const durationMs = Date.now() - startTime
+      const after = this.modelClient.getCounts()
+      logger.info("Benchmark run complete", {
+        run: name,
+        batchSize,
+        concurrency,
+        durationMs,
+        tweetsPerSecond: Number((count / (Math.max(durationMs, 1) / 1000)).toFixed(1)),
+        model: after.model - before.model,
+        fallback: after.fallback - before.fallback,
+      })
+    }
+
+    logger.info("Benchmark started", { count, circuit: this.modelClient.getCircuitState() })
+    await run("per tweet", 1, 1)
+    await run("micro-batched", config.sentiment.batchSize, config.sentiment.microBatch.concurrency)
+
+    this.modelClient.stop()
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms))
   }
 }
 
-// Run worker if executed directly
+// Run worker if executed directly; --benchmark [count] only measures scoring throughput
 if (require.main === module) {
   const worker = new SentimentWorker()
+  const benchmarkIndex = process.argv.indexOf("--benchmark")
 
-  process.on("SIGINT", () => {
-    worker.stop()
-    process.exit(0)
-  })
-
-  process.on("SIGTERM", () => {
-    worker.stop()
-    process.exit(0)
-  })
+  if (benchmarkIndex !== -1) {
+    const count = Number.parseInt(process.argv[benchmarkIndex + 1]) || 1000
 
-  worker.start().catch((error) => {
-    logger.error("Worker crashed", { error: error.message })
-    process.exit(1)
-  })
+    worker
+      .benchmark(count)
+      .then(() => process.exit(0))
+      .catch((error) => {
+        logger.error("Benchmark failed", { error: error.message })
+        process.exit(1)
+      })
+  } else {
+    process.on("SIGINT", () => {
+      worker.stop()
+      process.exit(0)
+    })
+
+    process.on("SIGTERM", () => {
+      worker.stop()
+      process.exit(0)
+    })
+
+    worker.start().catch((error) => {
+      logger.error("Worker crashed", { error: error.message })
+      process.exit(1)
+    })
+  }
 }
 
 export { SentimentWorker }